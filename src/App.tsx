@@ -4,8 +4,13 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "next-themes";
+import { PriceAlertMonitor } from "@/components/PriceAlertMonitor";
+import { FiatCurrencyProvider } from "@/components/FiatCurrencyProvider";
 import Index from "./pages/Index";
 import Leaderboard from "./pages/Leaderboard";
+import SeedDetail from "./pages/SeedDetail";
+import Watchlist from "./pages/Watchlist";
+import Portfolio from "./pages/Portfolio";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -14,16 +19,23 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <ThemeProvider attribute="class" defaultTheme="dark" enableSystem>
       <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/leaderboard" element={<Leaderboard />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
+        <FiatCurrencyProvider>
+          <Toaster />
+          <Sonner />
+          <PriceAlertMonitor />
+          <BrowserRouter>
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/leaderboard" element={<Leaderboard />} />
+              <Route path="/seed/:type/:tokenId" element={<SeedDetail />} />
+              <Route path="/watchlist" element={<Watchlist />} />
+              <Route path="/portfolio" element={<Portfolio />} />
+              <Route path="/portfolio/:address" element={<Portfolio />} />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </FiatCurrencyProvider>
       </TooltipProvider>
     </ThemeProvider>
   </QueryClientProvider>
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { ChevronDown, SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { formatNumber } from '@/utils/api';
+import {
+  DEFAULT_FILTERS,
+  FilterBounds,
+  LISTED_WITHIN_OPTIONS,
+  ListingFilters,
+  Range,
+  countActiveFilters,
+} from '@/utils/filters';
+
+interface AdvancedFiltersProps {
+  filters: ListingFilters;
+  bounds: FilterBounds;
+  onChange: (filters: ListingFilters) => void;
+}
+
+interface RangeSliderProps {
+  label: string;
+  value: Range | null;
+  max: number;
+  format: (n: number) => string;
+  onChange: (range: Range | null) => void;
+}
+
+function RangeSlider({ label, value, max, format, onChange }: RangeSliderProps) {
+  const [from, to] = value ?? [0, max];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-semibold">{label}</span>
+        <span className="text-muted-foreground">{format(from)} – {format(to)}</span>
+      </div>
+      <Slider
+        min={0}
+        max={max}
+        step={max / 100}
+        value={[from, to]}
+        disabled={max <= 0}
+        // Back at the full span means "no filter", so new listings aren't cut off
+        onValueChange={([lo, hi]) => onChange(lo <= 0 && hi >= max ? null : [lo, hi])}
+      />
+    </div>
+  );
+}
+
+function formatHours(hours: number): string {
+  return hours < 24 ? `${hours}h` : `${hours / 24}d`;
+}
+
+export function AdvancedFilters({ filters, bounds, onChange }: AdvancedFiltersProps) {
+  const [open, setOpen] = useState(false);
+  const activeCount = countActiveFilters(filters);
+  const update = (patch: Partial<ListingFilters>) => onChange({ ...filters, ...patch });
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="w-full">
+      <div className="flex items-center justify-center gap-2">
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="gap-2 text-xs md:text-sm">
+            <SlidersHorizontal className="w-4 h-4" />
+            Advanced filters{activeCount > 0 && ` (${activeCount})`}
+            <ChevronDown className={`w-4 h-4 transition-transform ${open ? 'rotate-180' : ''}`} />
+          </Button>
+        </CollapsibleTrigger>
+        {activeCount > 0 && (
+          <Button variant="ghost" size="sm" className="text-xs h-7 px-2" onClick={() => onChange(DEFAULT_FILTERS)}>
+            Clear
+          </Button>
+        )}
+      </div>
+
+      <CollapsibleContent className="pt-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-5">
+          <RangeSlider
+            label="Price (ETH)"
+            value={filters.priceRange}
+            max={bounds.maxPrice}
+            format={(n) => n.toFixed(3)}
+            onChange={(priceRange) => update({ priceRange })}
+          />
+          <RangeSlider
+            label="Points"
+            value={filters.pointsRange}
+            max={bounds.maxPoints}
+            format={(n) => formatNumber(Math.round(n))}
+            onChange={(pointsRange) => update({ pointsRange })}
+          />
+          <RangeSlider
+            label="Points per $1"
+            value={filters.pointsPerUSDRange}
+            max={bounds.maxPointsPerUSD}
+            format={(n) => formatNumber(Math.round(n))}
+            onChange={(pointsPerUSDRange) => update({ pointsPerUSDRange })}
+          />
+
+          <div className="flex gap-2 items-end">
+            <div className="flex-1 space-y-2">
+              <span className="text-xs font-semibold">Token ID</span>
+              <Input
+                placeholder="e.g. 42 or 100-250"
+                value={filters.tokenQuery}
+                onChange={(e) => update({ tokenQuery: e.target.value })}
+                className="h-9 text-sm"
+              />
+            </div>
+            <div className="space-y-2">
+              <span className="text-xs font-semibold">Listed within</span>
+              <Select
+                value={filters.listedWithinHours === null ? 'any' : String(filters.listedWithinHours)}
+                onValueChange={(v) => update({ listedWithinHours: v === 'any' ? null : Number(v) })}
+              >
+                <SelectTrigger className="h-9 w-[100px] text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any time</SelectItem>
+                  {LISTED_WITHIN_OPTIONS.map((hours) => (
+                    <SelectItem key={hours} value={String(hours)}>Last {formatHours(hours)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
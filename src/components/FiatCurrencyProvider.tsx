@@ -0,0 +1,47 @@
+import { ReactNode, useCallback, useMemo, useState } from 'react';
+import { useEthPrice } from '@/hooks/useEthPrice';
+import { FiatCurrencyContext, FiatCurrencyContextValue } from '@/hooks/useFiatCurrency';
+import { DEFAULT_FIAT, FiatCurrency, formatFiat, getFiatSymbol, isFiatCurrency } from '@/utils/fiat';
+
+const STORAGE_KEY = 'seed_fiat_currency';
+
+function readStorage(): FiatCurrency {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isFiatCurrency(stored) ? stored : DEFAULT_FIAT;
+  } catch {
+    return DEFAULT_FIAT;
+  }
+}
+
+/**
+ * Loads ETH fiat rates once for the app and persists the selected currency
+ */
+export function FiatCurrencyProvider({ children }: { children: ReactNode }) {
+  const [currency, setCurrencyState] = useState<FiatCurrency>(readStorage);
+  const { ethPrice: ethPriceUSD, fiatRates, loading } = useEthPrice();
+
+  const setCurrency = useCallback((next: FiatCurrency) => {
+    setCurrencyState(next);
+    localStorage.setItem(STORAGE_KEY, next);
+  }, []);
+
+  const value = useMemo<FiatCurrencyContextValue>(() => {
+    // Fall back to USD until a rate for the selected currency is known
+    const active: FiatCurrency = fiatRates[currency] ? currency : 'USD';
+    const ethPrice = fiatRates[active] ?? ethPriceUSD;
+    return {
+      currency,
+      setCurrency,
+      ethPrice,
+      ethPriceUSD,
+      loading,
+      toFiat: (eth) => eth * ethPrice,
+      formatEth: (eth, fractionDigits) => formatFiat(eth * ethPrice, active, fractionDigits),
+      formatUsd: (usd, fractionDigits) => formatFiat(usd * (ethPrice / ethPriceUSD), active, fractionDigits),
+      symbol: getFiatSymbol(active),
+    };
+  }, [currency, fiatRates, ethPriceUSD, loading, setCurrency]);
+
+  return <FiatCurrencyContext.Provider value={value}>{children}</FiatCurrencyContext.Provider>;
+}
@@ -0,0 +1,31 @@
+import { useFiatCurrency } from '@/hooks/useFiatCurrency';
+import { FIAT_CURRENCIES, FiatCurrency, getFiatSymbol } from '@/utils/fiat';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+export function FiatCurrencySelect() {
+  const { currency, setCurrency } = useFiatCurrency();
+
+  return (
+    <Select value={currency} onValueChange={(v) => setCurrency(v as FiatCurrency)}>
+      <SelectTrigger
+        className="h-8 md:h-9 w-[72px] md:w-[84px] px-2 text-xs md:text-sm"
+        title="Display currency"
+      >
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {FIAT_CURRENCIES.map((code) => (
+          <SelectItem key={code} value={code} className="text-xs md:text-sm">
+            {code} <span className="text-muted-foreground">{getFiatSymbol(code)}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
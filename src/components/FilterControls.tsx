@@ -48,7 +48,9 @@ export function FilterControls({
         <SelectContent>
           <SelectItem value="lowestprice">Lowest Price</SelectItem>
           <SelectItem value="highestprice">Highest Price</SelectItem>
-          <SelectItem value="bestdeal">Best Deal</SelectItem>
+          <SelectItem value="bestdeal">Most Points per ETH</SelectItem>
+          <SelectItem value="fairvalue">Below Fair Value</SelectItem>
+          <SelectItem value="projected">Best Projected Value</SelectItem>
         </SelectContent>
       </Select>
 
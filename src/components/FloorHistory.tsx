@@ -0,0 +1,139 @@
+import { useEffect, useMemo, useState } from 'react';
+import { LineChart as LineChartIcon } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { supabase } from '@/integrations/supabase/client';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { COLLECTION_SLUGS, NFTType, TimeRange, TIME_RANGE_SECONDS } from '@/utils/api';
+
+interface FloorHistoryProps {
+  nftType: NFTType;
+}
+
+type HistoryRange = Exclude<TimeRange, 'all'>;
+
+interface SnapshotPoint {
+  capturedAt: string;
+  floor: number | null;
+  median: number | null;
+  count: number;
+}
+
+const chartConfig = {
+  floor: {
+    label: 'Floor',
+    color: 'hsl(var(--primary))',
+  },
+  median: {
+    label: 'Median',
+    color: 'hsl(var(--accent))',
+  },
+} satisfies ChartConfig;
+
+// One point per bucket; 24h keeps every 30-minute snapshot
+const BUCKET_MINUTES: Record<HistoryRange, number> = {
+  '24h': 30,
+  '7d': 60,
+  '30d': 60,
+};
+
+function formatTick(iso: string, range: HistoryRange): string {
+  const date = new Date(iso);
+  return range === '24h'
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+export function FloorHistory({ nftType }: FloorHistoryProps) {
+  const [range, setRange] = useState<HistoryRange>('7d');
+  const [snapshots, setSnapshots] = useState<SnapshotPoint[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSnapshots = async () => {
+      setLoading(true);
+      try {
+        const cutoff = new Date(Date.now() - TIME_RANGE_SECONDS[range] * 1000).toISOString();
+        const { data, error } = await supabase.rpc('get_listing_snapshot_history', {
+          p_collection_slug: COLLECTION_SLUGS[nftType],
+          p_since: cutoff,
+          p_bucket_minutes: BUCKET_MINUTES[range],
+        });
+
+        if (error) throw error;
+        if (cancelled) return;
+
+        setSnapshots((data || []).map((s) => ({
+          capturedAt: s.captured_at,
+          floor: s.floor_eth,
+          median: s.median_eth,
+          count: s.listing_count,
+        })));
+      } catch (err) {
+        console.error('Error loading floor history:', err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadSnapshots();
+    return () => {
+      cancelled = true;
+    };
+  }, [nftType, range]);
+
+  const chartData = useMemo(() => snapshots.map((s) => ({
+    time: formatTick(s.capturedAt, range),
+    floor: s.floor,
+    median: s.median,
+  })), [snapshots, range]);
+
+  return (
+    <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card p-4 md:p-6 mb-6 animate-slide-up stagger-2">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div className="flex items-center gap-2">
+          <LineChartIcon className="w-4 h-4 text-primary" />
+          <h3 className="font-bold text-base">{nftType} Floor History</h3>
+        </div>
+        <Select value={range} onValueChange={(v) => setRange(v as HistoryRange)}>
+          <SelectTrigger className="h-8 text-xs w-[90px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="24h">24h</SelectItem>
+            <SelectItem value="7d">7 days</SelectItem>
+            <SelectItem value="30d">30 days</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading && snapshots.length === 0 ? (
+        <Skeleton className="h-[220px] w-full" />
+      ) : chartData.length < 2 ? (
+        <p className="text-sm text-muted-foreground py-8 text-center">
+          Not enough snapshots in this period yet.
+        </p>
+      ) : (
+        <ChartContainer config={chartConfig} className="h-[220px] w-full aspect-auto">
+          <LineChart data={chartData} margin={{ left: 4, right: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="time" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+            <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={(v: number) => v.toFixed(3)} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Line dataKey="floor" type="stepAfter" stroke="var(--color-floor)" strokeWidth={2} dot={false} />
+            <Line dataKey="median" type="monotone" stroke="var(--color-median)" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import { Link, useLocation } from 'react-router-dom';
-import { Scroll, Trophy, Info } from 'lucide-react';
+import { Scroll, Trophy, Info, Star, Wallet } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ThemeToggle } from '@/components/ThemeToggle';
+import { PriceAlerts } from '@/components/PriceAlerts';
+import { FiatCurrencySelect } from '@/components/FiatCurrencySelect';
 import {
   Popover,
   PopoverContent,
@@ -40,7 +42,7 @@ export function Header() {
                   currently listed for sale on OpenSea — sorted by best value.
                 </p>
                 <ul className="text-xs text-muted-foreground space-y-1 list-disc list-inside leading-relaxed">
-                  <li>See live ETH/USD prices for each Seed</li>
+                  <li>See live ETH and fiat prices for each Seed</li>
                   <li>Filter by points-per-dollar to find best deals</li>
                   <li>Track recent sales in the side panel</li>
                   <li>Use the calculator to price your own Seed fairly</li>
@@ -51,6 +53,28 @@ export function Header() {
               </div>
             </PopoverContent>
           </Popover>
+          <Link to="/watchlist">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 md:h-9 md:w-9"
+              title="Watchlist"
+            >
+              <Star className="w-4 h-4 md:w-5 md:h-5 text-yellow-500" />
+            </Button>
+          </Link>
+          <PriceAlerts />
+          <Link to="/portfolio">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 md:h-9 md:w-9"
+              title="Wallet portfolio"
+            >
+              <Wallet className="w-4 h-4 md:w-5 md:h-5 text-primary" />
+            </Button>
+          </Link>
+          <FiatCurrencySelect />
         </div>
         
         <Link 
@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowDown, ArrowUp, Loader2, TrendingDown, TrendingUp } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { NFTType, getSeedPath } from '@/utils/api';
+import { MoverMetric, RankMover, fetchRankMovers } from '@/utils/ranks';
+
+interface RankChangeProps {
+  // Places climbed since the previous refresh; negative = fell
+  delta: number | null;
+}
+
+/**
+ * Up/down arrow with the number of places moved; nothing when unchanged or unknown
+ */
+export function RankChange({ delta }: RankChangeProps) {
+  if (!delta) return null;
+
+  const up = delta > 0;
+  const Icon = up ? ArrowUp : ArrowDown;
+  return (
+    <span
+      className={`inline-flex items-center text-[10px] font-semibold ${up ? 'text-success' : 'text-destructive'}`}
+      title={`${up ? 'Up' : 'Down'} ${Math.abs(delta)} since the previous refresh`}
+    >
+      <Icon className="w-3 h-3" />
+      {Math.abs(delta)}
+    </span>
+  );
+}
+
+interface LeaderboardMoversProps {
+  nftType: NFTType | null;
+  metric: MoverMetric;
+  onMetricChange: (metric: MoverMetric) => void;
+  // Changes when a refresh completes, to reload the lists
+  lastCompletedAt: string | null;
+}
+
+const MOVERS_LIMIT = 10;
+
+function formatDelta(value: number | null): string {
+  if (value === null) return '–';
+  return `${value > 0 ? '+' : ''}${value.toLocaleString()}`;
+}
+
+function MoverList({ title, movers, metric, falling }: {
+  title: string;
+  movers: RankMover[];
+  metric: MoverMetric;
+  falling?: boolean;
+}) {
+  const Icon = falling ? TrendingDown : TrendingUp;
+
+  return (
+    <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card overflow-hidden">
+      <div className="px-3 md:px-4 py-2 md:py-3 bg-muted/30 border-b border-border flex items-center gap-2 text-sm font-semibold">
+        <Icon className={`w-4 h-4 ${falling ? 'text-destructive' : 'text-success'}`} />
+        {title}
+      </div>
+      {movers.length === 0 ? (
+        <p className="p-6 text-center text-sm text-muted-foreground">No changes since the previous refresh</p>
+      ) : (
+        <ul className="divide-y divide-border">
+          {movers.map((mover) => (
+            <li key={`${mover.nftType}-${mover.tokenId}`} className="px-3 md:px-4 py-2 flex items-center gap-3 hover:bg-muted/30">
+              <Link to={getSeedPath(mover.nftType, mover.tokenId)} className="flex items-center gap-2 flex-1 min-w-0 group">
+                {mover.imageUrl ? (
+                  <img src={mover.imageUrl} alt={`Seed #${mover.tokenId}`} className="w-8 h-8 rounded-lg object-cover" />
+                ) : (
+                  <div className="w-8 h-8 rounded-lg bg-muted" />
+                )}
+                <div className="flex flex-col min-w-0">
+                  <span className="font-medium text-xs md:text-sm group-hover:text-primary group-hover:underline">#{mover.tokenId}</span>
+                  <span className="text-[10px] text-muted-foreground">
+                    {mover.rank.global != null ? `#${mover.rank.global} global` : 'Unranked'} · {mover.points.toLocaleString()} pts
+                  </span>
+                </div>
+              </Link>
+              <Badge
+                variant="secondary"
+                className={`text-[10px] ${mover.nftType === 'Mythic' ? 'bg-purple-500/20 text-purple-600' : 'bg-amber-500/20 text-amber-600'}`}
+              >
+                {mover.nftType}
+              </Badge>
+              <div className="flex flex-col items-end min-w-[64px]">
+                {metric === 'points' ? (
+                  <>
+                    <span className={`font-bold text-xs md:text-sm ${falling ? 'text-destructive' : 'text-success'}`}>
+                      {formatDelta(mover.pointsDelta)} pts
+                    </span>
+                    <RankChange delta={mover.rankDelta} />
+                  </>
+                ) : (
+                  <>
+                    <RankChange delta={mover.rankDelta} />
+                    <span className="text-[10px] text-muted-foreground">{formatDelta(mover.pointsDelta)} pts</span>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function LeaderboardMovers({ nftType, metric, onMetricChange, lastCompletedAt }: LeaderboardMoversProps) {
+  const [movers, setMovers] = useState<{ gainers: RankMover[]; losers: RankMover[] } | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    fetchRankMovers(metric, nftType, MOVERS_LIMIT)
+      .then((result) => {
+        if (!cancelled) setMovers(result);
+      })
+      .catch((err) => {
+        console.error('Error loading movers:', err);
+        if (!cancelled) setMovers({ gainers: [], losers: [] });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [metric, nftType, lastCompletedAt]);
+
+  return (
+    <div className="space-y-4 animate-slide-up stagger-3">
+      <div className="flex items-center justify-center gap-2">
+        <span className="text-xs md:text-sm text-muted-foreground">Change in</span>
+        <Button
+          variant={metric === 'points' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => onMetricChange('points')}
+          className="h-8 text-xs"
+        >
+          Points
+        </Button>
+        <Button
+          variant={metric === 'rank' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => onMetricChange('rank')}
+          className="h-8 text-xs"
+        >
+          Rank
+        </Button>
+      </div>
+
+      {loading || !movers ? (
+        <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card p-8 text-center">
+          <Loader2 className="w-8 h-8 text-primary animate-spin mx-auto" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <MoverList title="Top gainers" movers={movers.gainers} metric={metric} />
+          <MoverList title="Top losers" movers={movers.losers} metric={metric} falling />
+        </div>
+      )}
+    </div>
+  );
+}
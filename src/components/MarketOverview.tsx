@@ -0,0 +1,106 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { BarChart3 } from 'lucide-react';
+import { Bar, BarChart, XAxis } from 'recharts';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { useFiatCurrency } from '@/hooks/useFiatCurrency';
+import { useMarketListings } from '@/hooks/useMarketListings';
+import { COLLECTION_SLUGS, NFTType, NFTWithMetadata, formatNumber, getSeedPath } from '@/utils/api';
+import { MarketSummary, summarizeListings } from '@/utils/market';
+
+interface MarketOverviewProps {
+  nftType: NFTType;
+  listings: NFTWithMetadata[];
+  /** Collection `listings` were loaded for */
+  listingsType: NFTType;
+}
+
+const chartConfig = {
+  count: {
+    label: 'Listings',
+    color: 'hsl(var(--primary))',
+  },
+} satisfies ChartConfig;
+
+function CollectionSummary({ nftType, summary }: { nftType: NFTType; summary: MarketSummary }) {
+  return (
+    <div className="rounded-lg border border-border bg-secondary/20 p-3 space-y-3">
+      <div className="flex items-baseline justify-between gap-2">
+        <h4 className="font-bold text-sm">{nftType}</h4>
+        <span className="text-xs text-muted-foreground">{summary.listingCount} listed</span>
+      </div>
+
+      <div className="flex items-baseline gap-2">
+        <span className="text-xs text-muted-foreground">Floor</span>
+        {summary.floor !== null && summary.floorTokenId ? (
+          <Link to={getSeedPath(nftType, summary.floorTokenId)} className="text-lg font-bold text-primary hover:underline">
+            {summary.floor.toFixed(4)} ETH
+          </Link>
+        ) : (
+          <span className="text-lg font-bold text-muted-foreground">–</span>
+        )}
+      </div>
+
+      <ChartContainer config={chartConfig} className="h-[120px] w-full aspect-auto">
+        <BarChart data={summary.depth} margin={{ left: 0, right: 0, top: 4, bottom: 0 }}>
+          <XAxis dataKey="label" tickLine={false} axisLine={false} fontSize={10} interval={0} />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={(label) => `${label} ETH`} />} />
+          <Bar dataKey="count" fill="var(--color-count)" radius={3} />
+        </BarChart>
+      </ChartContainer>
+
+      <div className="space-y-1">
+        <p className="text-[11px] font-semibold text-muted-foreground">Floor by points</p>
+        {summary.tierFloors.map(({ minPoints, price, tokenId }) => (
+          <div key={minPoints} className="flex justify-between text-xs">
+            <span className="text-muted-foreground">≥{formatNumber(minPoints)} pts</span>
+            {price !== null && tokenId ? (
+              <Link to={getSeedPath(nftType, tokenId)} className="font-semibold hover:text-primary hover:underline">
+                {price.toFixed(4)} ETH <span className="text-muted-foreground font-normal">#{tokenId}</span>
+              </Link>
+            ) : (
+              <span className="text-muted-foreground">–</span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function MarketOverview({ nftType, listings, listingsType }: MarketOverviewProps) {
+  const { listingsByType, loading } = useMarketListings(nftType, listings, listingsType);
+  const { ethPriceUSD } = useFiatCurrency();
+
+  const summaries = useMemo(() => {
+    return (Object.keys(COLLECTION_SLUGS) as NFTType[]).map(type => ({
+      type,
+      summary: listingsByType[type] ? summarizeListings(listingsByType[type]!, ethPriceUSD) : null,
+    }));
+  }, [listingsByType, ethPriceUSD]);
+
+  return (
+    <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card p-4 md:p-6 mb-6 animate-slide-up stagger-2">
+      <div className="flex items-center gap-2 mb-3">
+        <BarChart3 className="w-4 h-4 text-primary" />
+        <h3 className="font-bold text-base">Market Overview</h3>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {summaries.map(({ type, summary }) => summary ? (
+          <CollectionSummary key={type} nftType={type} summary={summary} />
+        ) : !loading && type !== nftType ? (
+          <div key={type} className="rounded-lg border border-border bg-secondary/20 p-3 text-sm text-muted-foreground">
+            {type} listings unavailable.
+          </div>
+        ) : (
+          <div key={type} className="rounded-lg border border-border bg-secondary/20 p-3 space-y-3">
+            <Skeleton className="h-4 w-20" />
+            <Skeleton className="h-6 w-32" />
+            <Skeleton className="h-[120px] w-full" />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
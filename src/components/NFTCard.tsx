@@ -1,25 +1,34 @@
 import { useState, useEffect } from 'react';
-import { ExternalLink, TrendingUp, Star, DollarSign } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { ExternalLink, TrendingUp, Star, DollarSign, Trophy } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { WatchlistButton } from '@/components/WatchlistButton';
+import { useFiatCurrency } from '@/hooks/useFiatCurrency';
+import { getFairValueDelta } from '@/utils/fairValue';
+import { formatTopPercent } from '@/utils/ranks';
+import { PROJECTION_DAYS, formatPointsPerDay } from '@/utils/projections';
 import { 
   NFTWithMetadata, 
   getNFTName, 
   formatPrice, 
-  calculatePointsPerUSD,
   formatNumber,
-  getPriceInUSD,
+  getPriceValue,
   getImageUrl,
-  getOpenSeaUrl
+  getOpenSeaUrl,
+  getSeedPath
 } from '@/utils/api';
 
 interface NFTCardProps {
   listing: NFTWithMetadata;
-  isBestDeal?: boolean;
+  // 1-based position among the listings furthest below fair value
+  dealRank?: number;
 }
 
-export function NFTCard({ listing, isBestDeal }: NFTCardProps) {
+export function NFTCard({ listing, dealRank }: NFTCardProps) {
+  const navigate = useNavigate();
+  const { toFiat, formatEth, symbol, ethPriceUSD } = useFiatCurrency();
   const [imageUrl, setImageUrl] = useState<string>(
     listing.cachedImageUrl || ''
   );
@@ -27,11 +36,15 @@ export function NFTCard({ listing, isBestDeal }: NFTCardProps) {
   const [imageError, setImageError] = useState(false);
 
   const name = getNFTName(listing);
-  const price = formatPrice(listing);
-  const priceUSD = getPriceInUSD(listing);
+  const price = formatPrice(listing, ethPriceUSD);
+  const priceEth = getPriceValue(listing, ethPriceUSD);
   const points = listing.stakingPoints;
-  const pointsPerUSD = calculatePointsPerUSD(listing);
+  const priceFiat = toFiat(priceEth);
+  const pointsPerFiat = points && priceFiat > 0 ? points / priceFiat : 0;
+  const fairValueDelta = getFairValueDelta(listing, ethPriceUSD);
   const openSeaUrl = getOpenSeaUrl(listing);
+  const rank = listing.rank;
+  const projection = listing.projection;
 
   useEffect(() => {
     if (!listing.cachedImageUrl) {
@@ -43,6 +56,13 @@ export function NFTCard({ listing, isBestDeal }: NFTCardProps) {
   }, [listing]);
 
   const handleCardClick = () => {
+    if (listing.nftType && listing.tokenId) {
+      navigate(getSeedPath(listing.nftType, listing.tokenId));
+    }
+  };
+
+  const handleOpenSeaClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
     if (openSeaUrl) {
       window.open(openSeaUrl, '_blank', 'noopener,noreferrer');
     }
@@ -64,7 +84,7 @@ export function NFTCard({ listing, isBestDeal }: NFTCardProps) {
   return (
     <Card 
       className={`overflow-hidden transition-smooth cursor-pointer hover:shadow-card-hover hover:-translate-y-2 ${
-        isBestDeal ? 'ring-2 ring-accent shadow-glow' : ''
+        dealRank ? 'ring-2 ring-accent shadow-glow' : ''
       }`}
       onClick={handleCardClick}
     >
@@ -76,11 +96,11 @@ export function NFTCard({ listing, isBestDeal }: NFTCardProps) {
             {listing.nftType}
           </Badge>
         )}
-        {isBestDeal && (
+        {dealRank && (
           <Badge 
             className="absolute top-3 left-3 z-10 gradient-accent text-accent-foreground font-bold uppercase text-xs shadow-lg"
           >
-            🏆 Best Deal
+            🏆 {dealRank === 1 ? 'Best Deal' : `Top Deal #${dealRank}`}
           </Badge>
         )}
         {(imageLoading || !imageUrl) && (
@@ -113,7 +133,19 @@ export function NFTCard({ listing, isBestDeal }: NFTCardProps) {
           >
             {name}
           </h3>
-          <ExternalLink className="w-4 h-4 text-muted-foreground ml-2 flex-shrink-0" />
+          {listing.nftType && listing.tokenId && (
+            <WatchlistButton nftType={listing.nftType} tokenId={listing.tokenId} className="ml-2 flex-shrink-0" />
+          )}
+          {openSeaUrl && (
+            <button
+              type="button"
+              onClick={handleOpenSeaClick}
+              className="ml-2 flex-shrink-0 rounded p-0.5 hover:bg-secondary transition-smooth"
+              title="View on OpenSea"
+            >
+              <ExternalLink className="w-4 h-4 text-muted-foreground hover:text-primary" />
+            </button>
+          )}
         </div>
 
         <Separator className="bg-border/50" />
@@ -124,7 +156,7 @@ export function NFTCard({ listing, isBestDeal }: NFTCardProps) {
           <span className="text-base font-bold text-primary">{price}</span>
           <span className="text-sm text-muted-foreground">·</span>
           <span className="text-sm font-medium text-muted-foreground">
-            ~${priceUSD.toFixed(0)}
+            ~{formatEth(priceEth)}
           </span>
         </div>
 
@@ -142,14 +174,49 @@ export function NFTCard({ listing, isBestDeal }: NFTCardProps) {
             </div>
           )}
 
-          {/* Points per USD */}
-          {pointsPerUSD > 0 && (
+          {/* Points per unit of the selected fiat currency */}
+          {pointsPerFiat > 0 && (
             <div className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-accent/15 text-accent border border-accent/20 text-sm font-semibold">
               <TrendingUp className="w-3.5 h-3.5" />
-              <span>{formatNumber(Math.round(pointsPerUSD))} pts/$1</span>
+              <span>{formatNumber(Math.round(pointsPerFiat))} pts/{symbol}1</span>
             </div>
           )}
         </div>
+
+        {/* Points accrual */}
+        {projection && (
+          <div
+            className="flex items-center gap-1.5 text-xs text-muted-foreground"
+            title="Fitted from recent points history"
+          >
+            <TrendingUp className="w-3.5 h-3.5" />
+            <span>
+              {formatPointsPerDay(projection.pointsPerDay)} · ~{formatNumber(projection.projected30d)} pts in {PROJECTION_DAYS}d
+            </span>
+          </div>
+        )}
+
+        {/* Leaderboard position */}
+        {rank?.global != null && (
+          <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            <Trophy className="w-3.5 h-3.5" />
+            <span>
+              #{rank.global} global
+              {rank.type != null && ` · #${rank.type} ${listing.nftType}`}
+              {rank.topPercent != null && ` · ${formatTopPercent(rank.topPercent)}`}
+            </span>
+          </div>
+        )}
+
+        {/* Position vs the regression fair value */}
+        {fairValueDelta !== null && listing.fairValue && (
+          <div
+            className={`text-xs font-medium ${fairValueDelta <= 0 ? 'text-success' : 'text-destructive'}`}
+            title={`Fair value ${listing.fairValue.fair.toFixed(4)} ETH (range ${listing.fairValue.low.toFixed(4)}–${listing.fairValue.high.toFixed(4)})`}
+          >
+            {Math.abs(Math.round(fairValueDelta * 100))}% {fairValueDelta <= 0 ? 'below' : 'above'} fair value
+          </div>
+        )}
       </div>
     </Card>
   );
@@ -1,6 +1,11 @@
 import { NFTCard } from './NFTCard';
 import { NFTGridSkeleton } from './NFTCardSkeleton';
-import { NFTWithMetadata, calculatePointsPerPrice } from '@/utils/api';
+import { useFiatCurrency } from '@/hooks/useFiatCurrency';
+import { NFTWithMetadata } from '@/utils/api';
+import { getDiscountScore } from '@/utils/fairValue';
+
+// Number of highlighted deals
+const TOP_DEALS = 3;
 
 interface NFTGridProps {
   listings: NFTWithMetadata[];
@@ -9,6 +14,8 @@ interface NFTGridProps {
 }
 
 export function NFTGrid({ listings, loading, error }: NFTGridProps) {
+  const { ethPriceUSD } = useFiatCurrency();
+
   if (loading) {
     return <NFTGridSkeleton count={8} />;
   }
@@ -29,12 +36,15 @@ export function NFTGrid({ listings, loading, error }: NFTGridProps) {
     );
   }
 
-  // Find best deal (highest points per ETH)
-  const bestDealIndex = listings.reduce((bestIdx, listing, idx) => {
-    const currentRatio = calculatePointsPerPrice(listing);
-    const bestRatio = calculatePointsPerPrice(listings[bestIdx]);
-    return currentRatio > bestRatio ? idx : bestIdx;
-  }, 0);
+  // Top deals by discount to fair value, regardless of the current sort
+  const dealRanks = new Map(
+    listings
+      .map(listing => ({ listing, discount: getDiscountScore(listing, ethPriceUSD) ?? 0 }))
+      .filter(({ discount }) => discount > 0)
+      .sort((a, b) => b.discount - a.discount)
+      .slice(0, TOP_DEALS)
+      .map(({ listing }, i) => [listing, i + 1])
+  );
 
   return (
     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -46,7 +56,7 @@ export function NFTGrid({ listings, loading, error }: NFTGridProps) {
         >
           <NFTCard
             listing={listing}
-            isBestDeal={index === bestDealIndex && calculatePointsPerPrice(listing) > 0}
+            dealRank={dealRanks.get(listing)}
           />
         </div>
       ))}
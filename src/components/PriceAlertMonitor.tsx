@@ -0,0 +1,39 @@
+import { useEffect } from 'react';
+import { useFiatCurrency } from '@/hooks/useFiatCurrency';
+import { checkPriceAlerts, getWatchedAlertTypes, usePriceAlerts } from '@/hooks/usePriceAlerts';
+import { fetchNFTListings, fetchStakingPointsBatch } from '@/utils/api';
+
+const POLL_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Re-checks price alert rules in the background while the tab is open
+ */
+export function PriceAlertMonitor() {
+  const { rules } = usePriceAlerts();
+  const hasEnabledRules = rules.some(rule => rule.enabled);
+  const { ethPriceUSD } = useFiatCurrency();
+
+  useEffect(() => {
+    if (!hasEnabledRules) return;
+
+    const poll = async () => {
+      for (const nftType of getWatchedAlertTypes()) {
+        try {
+          const listings = await fetchNFTListings(nftType, ethPriceUSD);
+          const points = await fetchStakingPointsBatch(nftType, listings.flatMap(l => (l.tokenId ? [l.tokenId] : [])));
+          listings.forEach((listing) => {
+            if (listing.tokenId) listing.stakingPoints = points.get(listing.tokenId) ?? 0;
+          });
+          checkPriceAlerts(listings, ethPriceUSD);
+        } catch (err) {
+          console.warn(`Price alert check failed for ${nftType}:`, err);
+        }
+      }
+    };
+
+    const interval = setInterval(poll, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [hasEnabledRules, ethPriceUSD]);
+
+  return null;
+}
@@ -0,0 +1,155 @@
+import { useState, FormEvent } from 'react';
+import { Bell, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { usePriceAlerts } from '@/hooks/usePriceAlerts';
+import { AlertConditions, describeRule, hasConditions } from '@/utils/alerts';
+import { NFTType } from '@/utils/api';
+
+function parseOptional(value: string): number | undefined {
+  const n = parseFloat(value);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+export function PriceAlerts() {
+  const { rules, addRule, toggleRule, removeRule } = usePriceAlerts();
+  const [nftType, setNftType] = useState<NFTType>('Mythic');
+  const [minPoints, setMinPoints] = useState('');
+  const [maxPriceEth, setMaxPriceEth] = useState('');
+  const [minPointsPerUSD, setMinPointsPerUSD] = useState('');
+
+  const conditions: AlertConditions = {
+    minPoints: parseOptional(minPoints),
+    maxPriceEth: parseOptional(maxPriceEth),
+    minPointsPerUSD: parseOptional(minPointsPerUSD),
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!hasConditions(conditions)) return;
+    addRule(nftType, conditions);
+    setMinPoints('');
+    setMaxPriceEth('');
+    setMinPointsPerUSD('');
+  };
+
+  const activeCount = rules.filter(rule => rule.enabled).length;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 md:h-9 md:w-9 relative"
+          title="Price alerts"
+        >
+          <Bell className="w-4 h-4 md:w-5 md:h-5 text-primary" />
+          {activeCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 text-[9px] font-bold bg-accent text-accent-foreground rounded-full w-4 h-4 flex items-center justify-center">
+              {activeCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 text-sm">
+        <div className="space-y-3">
+          <h4 className="font-bold text-base flex items-center gap-2">
+            <Bell className="w-4 h-4 text-primary" />
+            Price Alerts
+          </h4>
+
+          {rules.length === 0 ? (
+            <p className="text-muted-foreground text-xs">
+              No alerts yet. Get notified when a listing matches your rule.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {rules.map(rule => (
+                <li key={rule.id} className="flex items-center gap-2 text-xs">
+                  <Switch checked={rule.enabled} onCheckedChange={() => toggleRule(rule.id)} />
+                  <span className={`flex-1 ${rule.enabled ? '' : 'text-muted-foreground line-through'}`}>
+                    {describeRule(rule)}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => removeRule(rule.id)}
+                    className="rounded p-0.5 hover:bg-secondary transition-smooth"
+                    title="Delete alert"
+                  >
+                    <Trash2 className="w-3.5 h-3.5 text-muted-foreground hover:text-destructive" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-2 pt-2 border-t border-border">
+            <Select value={nftType} onValueChange={(value) => setNftType(value as NFTType)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="Mythic">Mythic Seed</SelectItem>
+                <SelectItem value="Ancient">Ancient Seed</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="grid grid-cols-3 gap-2">
+              <Input
+                type="number"
+                min="0"
+                placeholder="Min pts"
+                value={minPoints}
+                onChange={(e) => setMinPoints(e.target.value)}
+                className="h-8 text-xs"
+              />
+              <Input
+                type="number"
+                min="0"
+                step="any"
+                placeholder="Max ETH"
+                value={maxPriceEth}
+                onChange={(e) => setMaxPriceEth(e.target.value)}
+                className="h-8 text-xs"
+              />
+              <Input
+                type="number"
+                min="0"
+                step="any"
+                placeholder="Min pts/$"
+                value={minPointsPerUSD}
+                onChange={(e) => setMinPointsPerUSD(e.target.value)}
+                className="h-8 text-xs"
+              />
+            </div>
+            <Button
+              type="submit"
+              size="sm"
+              className="w-full gradient-primary font-semibold"
+              disabled={!hasConditions(conditions)}
+            >
+              Add Alert
+            </Button>
+          </form>
+
+          <p className="text-[11px] text-muted-foreground pt-1 border-t border-border">
+            Listings are checked every few minutes while this tab is open.
+          </p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
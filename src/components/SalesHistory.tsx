@@ -1,6 +1,11 @@
 import { useEffect, useMemo, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { COLLECTION_SLUGS, NFTType, ETH_PRICE_USD, formatNumber } from '@/utils/api';
+import { Tables } from '@/integrations/supabase/types';
+import { COLLECTION_SLUGS, NFTType, TimeRange, TIME_RANGE_SECONDS, formatNumber, getCurrencyInfo, isEthPegged } from '@/utils/api';
+import { useFiatCurrency } from '@/hooks/useFiatCurrency';
+import { useEthPriceHistory } from '@/hooks/useEthPriceHistory';
+import { EthPricePoint, SaleSample, fetchPriceSamples, getEthPriceOn, getPricePerPointStats } from '@/utils/market';
+import { fitFairValueModel, getFairValue } from '@/utils/fairValue';
 import { ExternalLink, RefreshCw, Calculator, Info } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -35,14 +40,41 @@ interface SalesHistoryProps {
   nftType: NFTType;
 }
 
-type TimeRange = '24h' | '7d' | '30d' | 'all';
+// Price basis for the calculator: ETH, or USD at the time of each sale
+type PriceBasis = 'eth' | 'usd';
 
-const TIME_RANGE_SECONDS: Record<TimeRange, number> = {
-  '24h': 24 * 60 * 60,
-  '7d': 7 * 24 * 60 * 60,
-  '30d': 30 * 24 * 60 * 60,
-  all: Number.POSITIVE_INFINITY,
-};
+const PAGE_SIZE = 50;
+
+function toSaleEvent(row: Tables<'sales'>): SaleEvent {
+  return {
+    tokenId: row.token_id,
+    name: row.name ?? '',
+    imageUrl: row.image_url ?? '',
+    openseaUrl: row.opensea_url ?? '',
+    priceEth: Number(row.price_eth),
+    currency: row.currency,
+    timestamp: Math.floor(new Date(row.sold_at).getTime() / 1000),
+    stakingPoints: Number(row.staking_points),
+    transaction: row.transaction_hash,
+  };
+}
+
+/**
+ * USD value of a sale when it happened; stablecoin sales use their current rate
+ */
+function getUsdAtSale(priceEth: number, currency: string, soldAtMs: number, history: EthPricePoint[]): number | null {
+  if (isEthPegged(currency)) {
+    const ethUsd = getEthPriceOn(history, soldAtMs);
+    return ethUsd !== null ? priceEth * ethUsd : null;
+  }
+  const usdRate = getCurrencyInfo(currency)?.usdRate;
+  return usdRate ? priceEth * usdRate : null;
+}
+
+function getCutoffIso(timeRange: TimeRange): string | null {
+  if (timeRange === 'all') return null;
+  return new Date(Date.now() - TIME_RANGE_SECONDS[timeRange] * 1000).toISOString();
+}
 
 function timeAgo(ts: number): string {
   const seconds = Math.floor(Date.now() / 1000) - ts;
@@ -59,24 +91,46 @@ function timeAgo(ts: number): string {
 
 export function SalesHistory({ nftType }: SalesHistoryProps) {
   const [sales, setSales] = useState<SaleEvent[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [priceSamples, setPriceSamples] = useState<SaleSample[]>([]);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [syncing, setSyncing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [timeRange, setTimeRange] = useState<TimeRange>('7d');
   const [userPoints, setUserPoints] = useState<string>('');
+  const [priceBasis, setPriceBasis] = useState<PriceBasis>('eth');
+  const { formatEth, formatUsd, ethPriceUSD } = useFiatCurrency();
+  const { series: ethHistory } = useEthPriceHistory(getCutoffIso(timeRange)?.slice(0, 10) ?? null);
+
+  const fetchSalesPage = async (offset: number) => {
+    let query = supabase
+      .from('sales')
+      .select('*', { count: 'exact' })
+      .eq('collection_slug', COLLECTION_SLUGS[nftType])
+      .order('sold_at', { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    const cutoff = getCutoffIso(timeRange);
+    if (cutoff) query = query.gte('sold_at', cutoff);
+
+    const { data, error: queryError, count } = await query;
+    if (queryError) throw queryError;
+    return { rows: (data || []).map(toSaleEvent), count: count ?? 0 };
+  };
 
   const loadSales = async () => {
     setLoading(true);
     setError(null);
     try {
-      const { data, error: fnError } = await supabase.functions.invoke('opensea-sales', {
-        body: {
-          collectionSlug: COLLECTION_SLUGS[nftType],
-          nftType,
-          limit: 50,
-        },
-      });
-      if (fnError) throw fnError;
-      setSales(data?.sales || []);
+      const [{ rows, count }, samples] = await Promise.all([
+        fetchSalesPage(0),
+        // Stablecoin sales count towards the USD basis
+        fetchPriceSamples(nftType, timeRange, { ethOnly: false }),
+      ]);
+      setSales(rows);
+      setTotalCount(count);
+      setPriceSamples(samples);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load sales');
     } finally {
@@ -84,37 +138,81 @@ export function SalesHistory({ nftType }: SalesHistoryProps) {
     }
   };
 
+  const loadMore = async () => {
+    setLoadingMore(true);
+    try {
+      const { rows, count } = await fetchSalesPage(sales.length);
+      setSales((prev) => [...prev, ...rows]);
+      setTotalCount(count);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sales');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Pull the newest events into the ledger, then reload from it
+  const syncSales = async () => {
+    setSyncing(true);
+    try {
+      const { error: fnError } = await supabase.functions.invoke('opensea-sales-ingest', {
+        body: { collectionSlug: COLLECTION_SLUGS[nftType] },
+      });
+      if (fnError) throw fnError;
+    } catch (err) {
+      console.warn('Failed to sync sales:', err);
+    } finally {
+      setSyncing(false);
+    }
+    await loadSales();
+  };
+
   useEffect(() => {
     loadSales();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [nftType]);
-
-  // Filter sales by time range
-  const filteredSales = useMemo(() => {
-    const cutoff = Math.floor(Date.now() / 1000) - TIME_RANGE_SECONDS[timeRange];
-    return sales.filter((s) => s.timestamp >= cutoff);
-  }, [sales, timeRange]);
+  }, [nftType, timeRange]);
 
   // Calculate suggested price based on user points
   const suggestion = useMemo(() => {
     const pts = parseFloat(userPoints);
     if (!pts || pts <= 0) return null;
 
-    // Use sales with valid points to compute price-per-point ratios
-    const valid = filteredSales.filter((s) => s.stakingPoints > 0 && s.priceEth > 0);
-    if (valid.length === 0) return null;
+    if (priceBasis === 'usd') {
+      const samples = priceSamples.map((s) => ({
+        ...s,
+        priceUsd: getUsdAtSale(s.priceEth, s.currency, s.soldAt, ethHistory) ?? undefined,
+      }));
+      const stats = getPricePerPointStats(samples, 'usd');
+      if (!stats) return null;
+
+      // Shown in ETH at today's price
+      return {
+        fairEth: (stats.median * pts) / ethPriceUSD,
+        bestEth: (stats.topQuartile * pts) / ethPriceUSD,
+        fairUsd: stats.median * pts,
+        bestUsd: stats.topQuartile * pts,
+        model: null,
+        sampleSize: stats.sampleSize,
+      };
+    }
+
+    // price_eth holds token units for other currencies, so ETH stats use ETH/WETH sales only
+    const ethSamples = priceSamples.filter((s) => isEthPegged(s.currency));
+    const stats = getPricePerPointStats(ethSamples);
+    if (!stats) return null;
 
-    const ratios = valid.map((s) => s.priceEth / s.stakingPoints).sort((a, b) => a - b);
-    // Median ratio = fair price; top quartile = best/optimistic price
-    const median = ratios[Math.floor(ratios.length / 2)];
-    const topQuartile = ratios[Math.floor(ratios.length * 0.75)];
+    // Regression accounts for price not scaling linearly with points
+    const model = fitFairValueModel(ethSamples);
 
     return {
-      fairEth: median * pts,
-      bestEth: topQuartile * pts,
-      sampleSize: valid.length,
+      fairEth: stats.median * pts,
+      bestEth: stats.topQuartile * pts,
+      fairUsd: null,
+      bestUsd: null,
+      model: model ? getFairValue(model, pts) : null,
+      sampleSize: stats.sampleSize,
     };
-  }, [userPoints, filteredSales]);
+  }, [userPoints, priceSamples, priceBasis, ethHistory, ethPriceUSD]);
 
   return (
     <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card overflow-hidden flex flex-col h-full">
@@ -126,11 +224,11 @@ export function SalesHistory({ nftType }: SalesHistoryProps) {
         <Button
           variant="ghost"
           size="icon"
-          onClick={loadSales}
-          disabled={loading}
+          onClick={syncSales}
+          disabled={loading || syncing}
           title="Refresh"
         >
-          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          <RefreshCw className={`w-4 h-4 ${loading || syncing ? 'animate-spin' : ''}`} />
         </Button>
       </div>
 
@@ -168,7 +266,15 @@ export function SalesHistory({ nftType }: SalesHistoryProps) {
                     <span className="font-semibold text-accent-foreground">Best price</span>
                     <span className="text-muted-foreground"> — top 25% of recent sales. Optimistic but achievable.</span>
                   </li>
+                  <li>
+                    <span className="font-semibold text-foreground">Model value</span>
+                    <span className="text-muted-foreground"> — price fitted against points across sales, with an 80% range.</span>
+                  </li>
                 </ul>
+                <p className="text-muted-foreground leading-relaxed">
+                  Switch to <span className="font-semibold text-foreground">USD</span> to compare sales by
+                  what they were worth in dollars when they happened, instead of in ETH.
+                </p>
                 <p className="text-[11px] text-muted-foreground pt-1 border-t border-border">
                   Tip: longer time ranges give more stable estimates.
                 </p>
@@ -188,6 +294,15 @@ export function SalesHistory({ nftType }: SalesHistoryProps) {
               <SelectItem value="all">All time</SelectItem>
             </SelectContent>
           </Select>
+          <Select value={priceBasis} onValueChange={(v) => setPriceBasis(v as PriceBasis)}>
+            <SelectTrigger className="h-8 text-xs w-[70px]" title="Price basis">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="eth">ETH</SelectItem>
+              <SelectItem value="usd">USD</SelectItem>
+            </SelectContent>
+          </Select>
           <Input
             type="number"
             placeholder="Your points"
@@ -205,7 +320,7 @@ export function SalesHistory({ nftType }: SalesHistoryProps) {
               <span className="font-bold text-primary">
                 {suggestion.fairEth.toFixed(4)} ETH
                 <span className="text-muted-foreground ml-1">
-                  (${(suggestion.fairEth * ETH_PRICE_USD).toFixed(2)})
+                  ({suggestion.fairUsd !== null ? formatUsd(suggestion.fairUsd, 2) : formatEth(suggestion.fairEth, 2)})
                 </span>
               </span>
             </div>
@@ -214,12 +329,24 @@ export function SalesHistory({ nftType }: SalesHistoryProps) {
               <span className="font-bold text-accent-foreground">
                 {suggestion.bestEth.toFixed(4)} ETH
                 <span className="text-muted-foreground ml-1">
-                  (${(suggestion.bestEth * ETH_PRICE_USD).toFixed(2)})
+                  ({suggestion.bestUsd !== null ? formatUsd(suggestion.bestUsd, 2) : formatEth(suggestion.bestEth, 2)})
                 </span>
               </span>
             </div>
+            {suggestion.model && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Model value:</span>
+                <span className="font-bold">
+                  {suggestion.model.fair.toFixed(4)} ETH
+                  <span className="text-muted-foreground font-normal ml-1">
+                    ({suggestion.model.low.toFixed(3)}–{suggestion.model.high.toFixed(3)})
+                  </span>
+                </span>
+              </div>
+            )}
             <div className="text-[10px] text-muted-foreground pt-0.5">
               Based on {suggestion.sampleSize} recent sales
+              {priceBasis === 'usd' && ', valued in USD at time of sale'}
             </div>
           </div>
         )}
@@ -236,7 +363,7 @@ export function SalesHistory({ nftType }: SalesHistoryProps) {
 
       <ScrollArea className="flex-1 min-h-0" type="always">
         <div className="divide-y divide-border">
-          {loading && filteredSales.length === 0 && (
+          {loading && sales.length === 0 && (
             <div className="p-3 space-y-3">
               {Array.from({ length: 8 }).map((_, i) => (
                 <div key={i} className="flex items-center gap-3">
@@ -250,14 +377,14 @@ export function SalesHistory({ nftType }: SalesHistoryProps) {
             </div>
           )}
 
-          {!loading && filteredSales.length === 0 && !error && (
+          {!loading && sales.length === 0 && !error && (
             <div className="p-6 text-center text-sm text-muted-foreground">
               No sales found in this period.
             </div>
           )}
 
-          {filteredSales.map((sale, idx) => {
-            const usd = sale.priceEth * ETH_PRICE_USD;
+          {sales.map((sale, idx) => {
+            const usdAtSale = getUsdAtSale(sale.priceEth, sale.currency, sale.timestamp * 1000, ethHistory);
             return (
               <a
                 key={`${sale.transaction}-${sale.tokenId}-${idx}`}
@@ -290,9 +417,15 @@ export function SalesHistory({ nftType }: SalesHistoryProps) {
                       <span className="text-xs font-bold text-primary">
                         {sale.priceEth.toFixed(4)} {sale.currency}
                       </span>
-                      <span className="text-[10px] text-muted-foreground">
-                        ${usd.toFixed(2)}
-                      </span>
+                      {usdAtSale !== null ? (
+                        <span className="text-[10px] text-muted-foreground" title="Value at time of sale">
+                          {formatUsd(usdAtSale, 2)}
+                        </span>
+                      ) : (
+                        <span className="text-[10px] text-muted-foreground" title="At today's ETH price">
+                          {formatEth(sale.priceEth, 2)}
+                        </span>
+                      )}
                     </div>
                     <span className="text-xs text-accent-foreground bg-accent/30 px-1.5 py-0.5 rounded">
                       {formatNumber(sale.stakingPoints)} pts
@@ -302,6 +435,20 @@ export function SalesHistory({ nftType }: SalesHistoryProps) {
               </a>
             );
           })}
+
+          {sales.length < totalCount && (
+            <div className="p-3">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full text-xs"
+                onClick={loadMore}
+                disabled={loadingMore}
+              >
+                {loadingMore ? 'Loading…' : `Load more (${totalCount - sales.length} left)`}
+              </Button>
+            </div>
+          )}
         </div>
       </ScrollArea>
     </div>
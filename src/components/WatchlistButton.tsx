@@ -0,0 +1,33 @@
+import { Star } from 'lucide-react';
+import { useWatchlist } from '@/hooks/useWatchlist';
+import { NFTType } from '@/utils/api';
+
+interface WatchlistButtonProps {
+  nftType: NFTType;
+  tokenId: string;
+  className?: string;
+}
+
+export function WatchlistButton({ nftType, tokenId, className = '' }: WatchlistButtonProps) {
+  const { isWatched, toggle } = useWatchlist();
+  const watched = isWatched(nftType, tokenId);
+
+  const handleClick = (e: React.MouseEvent) => {
+    // Cards and rows are clickable themselves
+    e.stopPropagation();
+    e.preventDefault();
+    toggle(nftType, tokenId);
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      className={`rounded p-0.5 hover:bg-secondary transition-smooth ${className}`}
+      title={watched ? 'Remove from watchlist' : 'Add to watchlist'}
+      aria-pressed={watched}
+    >
+      <Star className={`w-4 h-4 ${watched ? 'fill-yellow-500 text-yellow-500' : 'text-muted-foreground hover:text-yellow-500'}`} />
+    </button>
+  );
+}
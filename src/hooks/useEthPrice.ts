@@ -1,16 +1,22 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { setCurrencyRates } from '@/utils/api';
 
 const CACHE_KEY = 'eth_price_cache';
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
 interface CacheData {
   price: number;
+  // USD rate per currency symbol
+  rates?: Record<string, number>;
+  // ETH price per fiat currency
+  fiat?: Record<string, number>;
   timestamp: number;
 }
 
 export function useEthPrice() {
   const [ethPrice, setEthPrice] = useState<number>(2500);
+  const [fiatRates, setFiatRates] = useState<Record<string, number>>({ USD: 2500 });
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -19,8 +25,11 @@ export function useEthPrice() {
       const cached = localStorage.getItem(CACHE_KEY);
       if (cached) {
         const data: CacheData = JSON.parse(cached);
-        if (Date.now() - data.timestamp < CACHE_DURATION) {
+        // Entries written before fiat rates existed are treated as stale
+        if (data.fiat && Date.now() - data.timestamp < CACHE_DURATION) {
           setEthPrice(data.price);
+          setFiatRates(data.fiat);
+          if (data.rates) setCurrencyRates(data.rates);
           setLoading(false);
           return;
         }
@@ -31,9 +40,13 @@ export function useEthPrice() {
         
         if (!error && data?.price) {
           setEthPrice(data.price);
+          setFiatRates(data.fiat ?? { USD: data.price });
+          if (data.rates) setCurrencyRates(data.rates);
           // Cache the result
           localStorage.setItem(CACHE_KEY, JSON.stringify({
             price: data.price,
+            rates: data.rates,
+            fiat: data.fiat ?? { USD: data.price },
             timestamp: Date.now(),
           }));
         }
@@ -47,5 +60,5 @@ export function useEthPrice() {
     fetchPrice();
   }, []);
 
-  return { ethPrice, loading };
+  return { ethPrice, fiatRates, loading };
 }
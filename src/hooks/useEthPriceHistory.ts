@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { EthPricePoint } from '@/utils/market';
+
+/**
+ * Daily ETH/USD series from the eth-price-history function, from `from` (YYYY-MM-DD) onwards
+ * or the whole stored history when null
+ */
+export function useEthPriceHistory(from: string | null) {
+  const [series, setSeries] = useState<EthPricePoint[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    supabase.functions.invoke('eth-price-history', { body: from ? { from } : {} })
+      .then(({ data, error }) => {
+        if (error) throw error;
+        if (!cancelled) setSeries((data?.prices || []) as EthPricePoint[]);
+      })
+      .catch((err) => console.warn('Failed to fetch ETH price history:', err))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [from]);
+
+  return { series, loading };
+}
@@ -0,0 +1,42 @@
+import { createContext, useContext } from 'react';
+import { DEFAULT_FIAT, FiatCurrency, formatFiat, getFiatSymbol } from '@/utils/fiat';
+
+export interface FiatCurrencyContextValue {
+  // Persisted choice; amounts show in USD until its rate has loaded
+  currency: FiatCurrency;
+  setCurrency: (currency: FiatCurrency) => void;
+  // ETH price in the selected currency
+  ethPrice: number;
+  // ETH price in USD, for values stored in USD and pricing stablecoin listings
+  ethPriceUSD: number;
+  loading: boolean;
+  /** Convert an ETH amount to the selected currency */
+  toFiat: (eth: number) => number;
+  /** Format an ETH amount in the selected currency, e.g. "€1,234" */
+  formatEth: (eth: number, fractionDigits?: number) => string;
+  /** Format a USD amount in the selected currency at today's exchange rate */
+  formatUsd: (usd: number, fractionDigits?: number) => string;
+  // Short symbol for labels like "pts/€1"
+  symbol: string;
+}
+
+const fallbackEthPrice = 2500;
+
+export const FiatCurrencyContext = createContext<FiatCurrencyContextValue>({
+  currency: DEFAULT_FIAT,
+  setCurrency: () => {},
+  ethPrice: fallbackEthPrice,
+  ethPriceUSD: fallbackEthPrice,
+  loading: true,
+  toFiat: (eth) => eth * fallbackEthPrice,
+  formatEth: (eth, fractionDigits) => formatFiat(eth * fallbackEthPrice, DEFAULT_FIAT, fractionDigits),
+  formatUsd: (usd, fractionDigits) => formatFiat(usd, DEFAULT_FIAT, fractionDigits),
+  symbol: getFiatSymbol(DEFAULT_FIAT),
+});
+
+/**
+ * Selected display currency and ETH conversion, provided by FiatCurrencyProvider
+ */
+export function useFiatCurrency() {
+  return useContext(FiatCurrencyContext);
+}
@@ -0,0 +1,58 @@
+import { useState, useEffect } from 'react';
+import { useFiatCurrency } from '@/hooks/useFiatCurrency';
+import {
+  COLLECTION_SLUGS,
+  NFTType,
+  NFTWithMetadata,
+  fetchNFTListings,
+  fetchStakingPointsBatch,
+} from '@/utils/api';
+
+type ListingsByType = Partial<Record<NFTType, NFTWithMetadata[]>>;
+
+/**
+ * Listings with points for every collection.
+ * The selected collection comes from the page; the others are loaded once here.
+ * `listingsType` is the collection `currentListings` were loaded for, which lags
+ * `currentType` until the page finishes loading a newly selected collection.
+ */
+export function useMarketListings(
+  currentType: NFTType,
+  currentListings: NFTWithMetadata[],
+  listingsType: NFTType,
+) {
+  const [listingsByType, setListingsByType] = useState<ListingsByType>({});
+  const [loading, setLoading] = useState(true);
+  const { ethPriceUSD } = useFiatCurrency();
+
+  useEffect(() => {
+    if (currentListings.length === 0 || listingsType !== currentType) return;
+    setListingsByType(prev => ({ ...prev, [currentType]: currentListings }));
+  }, [currentType, currentListings, listingsType]);
+
+  useEffect(() => {
+    const otherTypes = (Object.keys(COLLECTION_SLUGS) as NFTType[]).filter(type => type !== currentType);
+
+    const loadOthers = async () => {
+      await Promise.all(otherTypes.map(async (type) => {
+        try {
+          const listings = await fetchNFTListings(type, ethPriceUSD);
+          const points = await fetchStakingPointsBatch(type, listings.flatMap(l => (l.tokenId ? [l.tokenId] : [])));
+          listings.forEach((listing) => {
+            if (listing.tokenId) listing.stakingPoints = points.get(listing.tokenId) ?? 0;
+          });
+          setListingsByType(prev => prev[type] ? prev : { ...prev, [type]: listings });
+        } catch (err) {
+          console.warn(`Failed to load ${type} listings for market overview:`, err);
+        }
+      }));
+      setLoading(false);
+    };
+
+    loadOthers();
+    // Only the collections not shown on first render need loading
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return { listingsByType, loading };
+}
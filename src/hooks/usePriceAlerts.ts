@@ -0,0 +1,124 @@
+import { useSyncExternalStore } from 'react';
+import { toast } from 'sonner';
+import { AlertConditions, AlertRule, describeRule, matchesRule } from '@/utils/alerts';
+import { NFTType, NFTWithMetadata, getOpenSeaUrl, getPriceValue } from '@/utils/api';
+
+const STORAGE_KEY = 'seed_price_alerts';
+
+// Listings already alerted on this session, keyed by rule + seed + price
+const notified = new Set<string>();
+
+const listeners = new Set<() => void>();
+let rules: AlertRule[] = readStorage();
+
+function readStorage(): AlertRule[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function setRules(next: AlertRule[]) {
+  rules = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+
+  // Keep other tabs in sync
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY) return;
+    rules = readStorage();
+    listener();
+  };
+  window.addEventListener('storage', onStorage);
+
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+/**
+ * Collections that have at least one enabled rule
+ */
+export function getWatchedAlertTypes(): NFTType[] {
+  return Array.from(new Set(rules.filter(rule => rule.enabled).map(rule => rule.nftType)));
+}
+
+function showBrowserNotification(title: string, body: string, url: string | null) {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+
+  const notification = new Notification(title, { body, tag: title });
+  notification.onclick = () => {
+    window.focus();
+    if (url) window.open(url, '_blank', 'noopener,noreferrer');
+  };
+}
+
+/**
+ * Evaluate enabled rules against a fresh listings result (points loaded).
+ * Each listing is reported once per rule until its price changes.
+ */
+export function checkPriceAlerts(listings: NFTWithMetadata[], ethPriceUSD: number) {
+  const priceOf = (listing: NFTWithMetadata) => getPriceValue(listing, ethPriceUSD);
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+
+    const matches = listings
+      .filter(listing => matchesRule(rule, listing, ethPriceUSD))
+      .filter(listing => !notified.has(`${rule.id}:${listing.tokenId}:${priceOf(listing)}`))
+      .sort((a, b) => priceOf(a) - priceOf(b));
+
+    if (matches.length === 0) continue;
+    matches.forEach(listing => notified.add(`${rule.id}:${listing.tokenId}:${priceOf(listing)}`));
+
+    const best = matches[0];
+    const title = `Price alert: ${describeRule(rule)}`;
+    const more = matches.length > 1 ? ` (+${matches.length - 1} more)` : '';
+    const body = `${best.nftType} Seed #${best.tokenId} listed at ${priceOf(best).toFixed(4)} ETH${more}`;
+    const url = getOpenSeaUrl(best);
+
+    toast.success(title, {
+      description: body,
+      action: url
+        ? { label: 'OpenSea', onClick: () => window.open(url, '_blank', 'noopener,noreferrer') }
+        : undefined,
+    });
+    showBrowserNotification(title, body, url);
+  }
+}
+
+export function usePriceAlerts() {
+  const alertRules = useSyncExternalStore(subscribe, () => rules);
+
+  const addRule = (nftType: NFTType, conditions: AlertConditions) => {
+    // Ask once, on the first rule the user creates
+    if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+      Notification.requestPermission();
+    }
+    setRules([...rules, {
+      ...conditions,
+      id: crypto.randomUUID(),
+      nftType,
+      enabled: true,
+      createdAt: Date.now(),
+    }]);
+  };
+
+  const toggleRule = (id: string) => {
+    setRules(rules.map(rule => rule.id === id ? { ...rule, enabled: !rule.enabled } : rule));
+  };
+
+  const removeRule = (id: string) => {
+    setRules(rules.filter(rule => rule.id !== id));
+  };
+
+  return { rules: alertRules, addRule, toggleRule, removeRule };
+}
@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+/**
+ * Parses one query param; invalid or missing values fall back to a default.
+ * serialize returns null for the default so it stays out of the URL.
+ */
+export interface ParamCodec<T> {
+  parse(raw: string | null): T;
+  serialize(value: T): string | null;
+}
+
+type ParamValues<S> = { [K in keyof S]: S[K] extends ParamCodec<infer T> ? T : never };
+
+export function enumParam<T extends string>(values: readonly T[], defaultValue: T): ParamCodec<T> {
+  return {
+    parse: (raw) => values.find(v => v.toLowerCase() === raw?.toLowerCase()) ?? defaultValue,
+    serialize: (value) => (value === defaultValue ? null : value),
+  };
+}
+
+export function booleanParam(defaultValue = false): ParamCodec<boolean> {
+  return {
+    parse: (raw) => (raw === '1' || raw === 'true' ? true : raw === '0' || raw === 'false' ? false : defaultValue),
+    serialize: (value) => (value === defaultValue ? null : value ? '1' : '0'),
+  };
+}
+
+export function stringParam(defaultValue = ''): ParamCodec<string> {
+  return {
+    parse: (raw) => raw ?? defaultValue,
+    serialize: (value) => (value === defaultValue ? null : value),
+  };
+}
+
+export function positiveIntParam(defaultValue = 1): ParamCodec<number> {
+  return {
+    parse: (raw) => {
+      const n = Number(raw);
+      return raw !== null && Number.isInteger(n) && n >= 1 ? n : defaultValue;
+    },
+    serialize: (value) => (value === defaultValue ? null : String(value)),
+  };
+}
+
+/**
+ * Page state kept in the URL query string. Values are read from the URL on
+ * every render, so back/forward navigation and shared links restore them.
+ * Invalid params are rewritten to their canonical form on load.
+ */
+export function useQueryParams<S extends Record<string, ParamCodec<unknown>>>(schema: S) {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const values = useMemo(() => {
+    const result: Record<string, unknown> = {};
+    for (const [key, codec] of Object.entries(schema)) {
+      result[key] = codec.parse(searchParams.get(key));
+    }
+    return result as ParamValues<S>;
+    // The schema is a static object literal per page
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchParams]);
+
+  /**
+   * Update one or more params at once. Use replace for high-frequency
+   * changes like typing so they don't flood the history.
+   */
+  const setValues = useCallback((patch: Partial<ParamValues<S>>, { replace = false } = {}) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      for (const [key, value] of Object.entries(patch)) {
+        const raw = schema[key]?.serialize(value);
+        if (raw === null || raw === undefined) next.delete(key);
+        else next.set(key, raw);
+      }
+      return next;
+    }, { replace });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [setSearchParams]);
+
+  // Drop unknown values and defaults from the URL without adding a history entry
+  useEffect(() => {
+    const next = new URLSearchParams(searchParams);
+    let changed = false;
+    for (const [key, codec] of Object.entries(schema)) {
+      const raw = searchParams.get(key);
+      if (raw === null) continue;
+      const canonical = codec.serialize(codec.parse(raw));
+      if (canonical === raw) continue;
+      if (canonical === null) next.delete(key);
+      else next.set(key, canonical);
+      changed = true;
+    }
+    if (changed) setSearchParams(next, { replace: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchParams]);
+
+  return [values, setValues] as const;
+}
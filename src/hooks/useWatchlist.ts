@@ -0,0 +1,71 @@
+import { useSyncExternalStore } from 'react';
+import { NFTType } from '@/utils/api';
+
+const STORAGE_KEY = 'seed_watchlist';
+
+export interface WatchlistItem {
+  nftType: NFTType;
+  tokenId: string;
+  addedAt: number;
+}
+
+const listeners = new Set<() => void>();
+let items: WatchlistItem[] = readStorage();
+
+function readStorage(): WatchlistItem[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function setItems(next: WatchlistItem[]) {
+  items = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+
+  // Keep other tabs in sync
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY) return;
+    items = readStorage();
+    listener();
+  };
+  window.addEventListener('storage', onStorage);
+
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+function isSame(item: WatchlistItem, nftType: NFTType, tokenId: string) {
+  return item.nftType === nftType && item.tokenId === tokenId;
+}
+
+export function useWatchlist() {
+  const watchlist = useSyncExternalStore(subscribe, () => items);
+
+  const isWatched = (nftType: NFTType, tokenId: string) =>
+    watchlist.some(item => isSame(item, nftType, tokenId));
+
+  const toggle = (nftType: NFTType, tokenId: string) => {
+    if (items.some(item => isSame(item, nftType, tokenId))) {
+      setItems(items.filter(item => !isSame(item, nftType, tokenId)));
+    } else {
+      setItems([...items, { nftType, tokenId, addedAt: Date.now() }]);
+    }
+  };
+
+  const remove = (nftType: NFTType, tokenId: string) => {
+    setItems(items.filter(item => !isSame(item, nftType, tokenId)));
+  };
+
+  return { watchlist, isWatched, toggle, remove };
+}
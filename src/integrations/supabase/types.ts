@@ -14,38 +14,118 @@ export type Database = {
   }
   public: {
     Tables: {
+      discord_notifier_state: {
+        Row: {
+          best_deal_points: number | null
+          best_deal_price_eth: number | null
+          best_deal_token_id: string | null
+          collection_slug: string
+          last_listing_at: string | null
+          last_sale_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          best_deal_points?: number | null
+          best_deal_price_eth?: number | null
+          best_deal_token_id?: string | null
+          collection_slug: string
+          last_listing_at?: string | null
+          last_sale_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          best_deal_points?: number | null
+          best_deal_price_eth?: number | null
+          best_deal_token_id?: string | null
+          collection_slug?: string
+          last_listing_at?: string | null
+          last_sale_at?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      eth_price_history: {
+        Row: {
+          day: string
+          price_usd: number
+          updated_at: string
+        }
+        Insert: {
+          day: string
+          price_usd: number
+          updated_at?: string
+        }
+        Update: {
+          day?: string
+          price_usd?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       leaderboard_entries: {
         Row: {
           collection_slug: string
+          global_rank: number | null
           id: string
           image_url: string | null
           is_listed: boolean
           nft_type: string
           opensea_url: string | null
           points: number
+          points_delta: number | null
+          points_per_day: number | null
+          points_updated_at: string
+          previous_global_rank: number | null
+          previous_points: number | null
+          previous_type_rank: number | null
+          projected_points_30d: number | null
+          rank_delta: number | null
+          ranked_points: number | null
           token_id: string
+          top_percent: number | null
+          type_rank: number | null
           updated_at: string
         }
         Insert: {
           collection_slug: string
+          global_rank?: number | null
           id?: string
           image_url?: string | null
           is_listed?: boolean
           nft_type: string
           opensea_url?: string | null
           points?: number
+          points_per_day?: number | null
+          points_updated_at?: string
+          previous_global_rank?: number | null
+          previous_points?: number | null
+          previous_type_rank?: number | null
+          projected_points_30d?: number | null
+          ranked_points?: number | null
           token_id: string
+          top_percent?: number | null
+          type_rank?: number | null
           updated_at?: string
         }
         Update: {
           collection_slug?: string
+          global_rank?: number | null
           id?: string
           image_url?: string | null
           is_listed?: boolean
           nft_type?: string
           opensea_url?: string | null
           points?: number
+          points_per_day?: number | null
+          points_updated_at?: string
+          previous_global_rank?: number | null
+          previous_points?: number | null
+          previous_type_rank?: number | null
+          projected_points_30d?: number | null
+          ranked_points?: number | null
           token_id?: string
+          top_percent?: number | null
+          type_rank?: number | null
           updated_at?: string
         }
         Relationships: []
@@ -53,29 +133,240 @@ export type Database = {
       leaderboard_meta: {
         Row: {
           cache_key: string
+          current_run_id: string | null
           id: string
           last_completed_at: string | null
           last_error: string | null
           last_started_at: string | null
+          next_collection: number
+          next_offset: number
+          phase: string
+          processed_total: number
+          progress_message: string | null
+          remaining_zeros: number | null
           status: string
+          tick_started_at: string | null
           updated_at: string
+          zero_repair_iterations: number
+          zero_repair_stalls: number
         }
         Insert: {
           cache_key: string
+          current_run_id?: string | null
           id?: string
           last_completed_at?: string | null
           last_error?: string | null
           last_started_at?: string | null
+          next_collection?: number
+          next_offset?: number
+          phase?: string
+          processed_total?: number
+          progress_message?: string | null
+          remaining_zeros?: number | null
           status?: string
+          tick_started_at?: string | null
           updated_at?: string
+          zero_repair_iterations?: number
+          zero_repair_stalls?: number
         }
         Update: {
           cache_key?: string
+          current_run_id?: string | null
           id?: string
           last_completed_at?: string | null
           last_error?: string | null
           last_started_at?: string | null
+          next_collection?: number
+          next_offset?: number
+          phase?: string
+          processed_total?: number
+          progress_message?: string | null
+          remaining_zeros?: number | null
           status?: string
+          tick_started_at?: string | null
+          updated_at?: string
+          zero_repair_iterations?: number
+          zero_repair_stalls?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leaderboard_meta_current_run_id_fkey"
+            columns: ["current_run_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leaderboard_runs: {
+        Row: {
+          cache_key: string
+          completed_at: string | null
+          id: string
+          started_at: string
+        }
+        Insert: {
+          cache_key: string
+          completed_at?: string | null
+          id?: string
+          started_at?: string
+        }
+        Update: {
+          cache_key?: string
+          completed_at?: string | null
+          id?: string
+          started_at?: string
+        }
+        Relationships: []
+      }
+      leaderboard_snapshots: {
+        Row: {
+          captured_at: string
+          collection_slug: string
+          id: string
+          nft_type: string
+          points: number
+          run_id: string
+          token_id: string
+        }
+        Insert: {
+          captured_at?: string
+          collection_slug: string
+          id?: string
+          nft_type: string
+          points?: number
+          run_id: string
+          token_id: string
+        }
+        Update: {
+          captured_at?: string
+          collection_slug?: string
+          id?: string
+          nft_type?: string
+          points?: number
+          run_id?: string
+          token_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leaderboard_snapshots_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      listing_snapshots: {
+        Row: {
+          captured_at: string
+          collection_slug: string
+          floor_eth: number | null
+          id: string
+          listing_count: number
+          median_eth: number | null
+          nft_type: string
+          tier_floors: Json
+        }
+        Insert: {
+          captured_at?: string
+          collection_slug: string
+          floor_eth?: number | null
+          id?: string
+          listing_count?: number
+          median_eth?: number | null
+          nft_type: string
+          tier_floors?: Json
+        }
+        Update: {
+          captured_at?: string
+          collection_slug?: string
+          floor_eth?: number | null
+          id?: string
+          listing_count?: number
+          median_eth?: number | null
+          nft_type?: string
+          tier_floors?: Json
+        }
+        Relationships: []
+      }
+      sales: {
+        Row: {
+          buyer: string | null
+          collection_slug: string
+          created_at: string
+          currency: string
+          image_url: string | null
+          name: string | null
+          nft_type: string
+          opensea_url: string | null
+          payment_decimals: number | null
+          payment_quantity: string | null
+          price_eth: number
+          seller: string | null
+          sold_at: string
+          staking_points: number
+          token_id: string
+          transaction_hash: string
+        }
+        Insert: {
+          buyer?: string | null
+          collection_slug: string
+          created_at?: string
+          currency?: string
+          image_url?: string | null
+          name?: string | null
+          nft_type: string
+          opensea_url?: string | null
+          payment_decimals?: number | null
+          payment_quantity?: string | null
+          price_eth?: number
+          seller?: string | null
+          sold_at: string
+          staking_points?: number
+          token_id: string
+          transaction_hash: string
+        }
+        Update: {
+          buyer?: string | null
+          collection_slug?: string
+          created_at?: string
+          currency?: string
+          image_url?: string | null
+          name?: string | null
+          nft_type?: string
+          opensea_url?: string | null
+          payment_decimals?: number | null
+          payment_quantity?: string | null
+          price_eth?: number
+          seller?: string | null
+          sold_at?: string
+          staking_points?: number
+          token_id?: string
+          transaction_hash?: string
+        }
+        Relationships: []
+      }
+      sales_ingest_state: {
+        Row: {
+          collection_slug: string
+          next_cursor: string | null
+          pass_newest_at: string | null
+          synced_until: string | null
+          updated_at: string
+        }
+        Insert: {
+          collection_slug: string
+          next_cursor?: string | null
+          pass_newest_at?: string | null
+          synced_until?: string | null
+          updated_at?: string
+        }
+        Update: {
+          collection_slug?: string
+          next_cursor?: string | null
+          pass_newest_at?: string | null
+          synced_until?: string | null
           updated_at?: string
         }
         Relationships: []
@@ -85,7 +376,62 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      get_leaderboard_page: {
+        Args: {
+          p_listed?: boolean
+          p_nft_type?: string
+          p_page?: number
+          p_page_size?: number
+          p_search?: string
+        }
+        Returns: {
+          filtered_rank: number | null
+          global_rank: number | null
+          image_url: string
+          is_listed: boolean
+          nft_type: string
+          opensea_url: string
+          points: number
+          points_delta: number | null
+          points_per_day: number | null
+          projected_points_30d: number | null
+          rank_delta: number | null
+          token_id: string
+          top_percent: number | null
+          total_count: number
+          type_rank: number | null
+        }[]
+      }
+      get_leaderboard_stats: {
+        Args: never
+        Returns: {
+          nft_type: string
+          seed_count: number
+          total_points: number
+          zero_points_count: number
+        }[]
+      }
+      get_listing_snapshot_history: {
+        Args: {
+          p_bucket_minutes?: number
+          p_collection_slug: string
+          p_since: string
+        }
+        Returns: {
+          captured_at: string
+          floor_eth: number | null
+          listing_count: number
+          median_eth: number | null
+        }[]
+      }
+      update_leaderboard_ranks: {
+        Args: { p_roll?: boolean }
+        Returns: undefined
+      }
+      update_points_projections: {
+        Args: { p_window_days?: number }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
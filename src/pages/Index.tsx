@@ -1,39 +1,53 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { ArrowUp, History } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 import { FilterControls } from '@/components/FilterControls';
+import { AdvancedFilters } from '@/components/AdvancedFilters';
 import { NFTGrid } from '@/components/NFTGrid';
 import { SalesHistory } from '@/components/SalesHistory';
+import { MarketOverview } from '@/components/MarketOverview';
+import { FloorHistory } from '@/components/FloorHistory';
 import { AdBanner } from '@/components/AdBanner';
 import { PageLayout } from '@/components/Layout';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
-import { useEthPrice } from '@/hooks/useEthPrice';
+import { useFiatCurrency } from '@/hooks/useFiatCurrency';
+import { checkPriceAlerts } from '@/hooks/usePriceAlerts';
+import { booleanParam, enumParam, useQueryParams } from '@/hooks/useQueryParams';
+import { fetchFairValueModel, getFairValue } from '@/utils/fairValue';
+import { fetchSeedRanks } from '@/utils/ranks';
+import { fetchPointsProjections } from '@/utils/projections';
+import { DEFAULT_FILTERS, ListingFilters, applyListingFilters, getFilterBounds } from '@/utils/filters';
 import {
+  COLLECTION_SLUGS,
   NFTType,
-  SortType,
+  SORT_TYPES,
   NFTWithMetadata,
+  PointsProjection,
+  SeedRank,
   fetchNFTListings,
-  fetchStakingPoints,
+  fetchStakingPointsBatch,
   sortListings,
-  setEthPriceUSD,
 } from '@/utils/api';
 
+const QUERY_PARAMS = {
+  type: enumParam(Object.keys(COLLECTION_SLUGS) as NFTType[], 'Mythic'),
+  sort: enumParam(SORT_TYPES, 'lowestprice'),
+  hideZero: booleanParam(),
+};
+
 export default function Index() {
-  const [nftType, setNftType] = useState<NFTType>('Mythic');
-  const [sortType, setSortType] = useState<SortType>('lowestprice');
-  const [hideZeroPoints, setHideZeroPoints] = useState(false);
+  const [{ type: nftType, sort: sortType, hideZero: hideZeroPoints }, setQuery] = useQueryParams(QUERY_PARAMS);
+  const [filters, setFilters] = useState<ListingFilters>(DEFAULT_FILTERS);
   const [listings, setListings] = useState<NFTWithMetadata[]>([]);
+  // Collection the current listings were loaded for; lags nftType while a switch is loading
+  const [listingsType, setListingsType] = useState<NFTType>(nftType);
   const [displayListings, setDisplayListings] = useState<NFTWithMetadata[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showScrollTop, setShowScrollTop] = useState(false);
-  const { ethPrice } = useEthPrice();
-
-  // Update global ETH price when it changes
-  useEffect(() => {
-    setEthPriceUSD(ethPrice);
-  }, [ethPrice]);
+  const { ethPriceUSD } = useFiatCurrency();
+  const loadRequestRef = useRef(0);
 
   useEffect(() => {
     const handleScroll = () => {
@@ -49,30 +63,53 @@ export default function Index() {
   };
 
   const loadNFTs = async (silent = false) => {
+    // A newer load (e.g. a quick collection switch) supersedes this one
+    const requestId = ++loadRequestRef.current;
     setLoading(true);
     setError(null);
 
     try {
-      const fetchedListings = await fetchNFTListings(nftType);
+      const fetchedListings = await fetchNFTListings(nftType, ethPriceUSD);
+      if (requestId !== loadRequestRef.current) return;
       setListings(fetchedListings);
-
-      await Promise.all(
-        fetchedListings.map(async (listing) => {
-          if (listing.tokenId) {
-            const points = await fetchStakingPoints(listing.tokenId, nftType);
-            listing.stakingPoints = points;
-          }
-        })
-      );
+      setListingsType(nftType);
+
+      // Missing model, rank or projection data only hides the related badges
+      const tokenIds = fetchedListings.flatMap(listing => (listing.tokenId ? [listing.tokenId] : []));
+      const [model, ranks, projections, points] = await Promise.all([
+        fetchFairValueModel(nftType).catch((err) => {
+          console.warn('Failed to fit fair value model:', err);
+          return null;
+        }),
+        fetchSeedRanks(nftType, tokenIds).catch((err) => {
+          console.warn('Failed to load ranks:', err);
+          return new Map<string, SeedRank>();
+        }),
+        fetchPointsProjections(nftType, tokenIds).catch((err) => {
+          console.warn('Failed to load points projections:', err);
+          return new Map<string, PointsProjection>();
+        }),
+        fetchStakingPointsBatch(nftType, tokenIds),
+      ]);
+      if (requestId !== loadRequestRef.current) return;
+
+      fetchedListings.forEach((listing) => {
+        if (listing.tokenId) listing.stakingPoints = points.get(listing.tokenId) ?? 0;
+        listing.fairValue = model && listing.stakingPoints ? getFairValue(model, listing.stakingPoints) : null;
+        listing.rank = listing.tokenId ? ranks.get(listing.tokenId) ?? null : null;
+        listing.projection = listing.tokenId ? projections.get(listing.tokenId) ?? null : null;
+      });
 
       setListings([...fetchedListings]);
+      checkPriceAlerts(fetchedListings, ethPriceUSD);
       if (!silent) toast.success('NFTs loaded successfully!');
     } catch (err) {
+      if (requestId !== loadRequestRef.current) return;
       const errorMessage = err instanceof Error ? err.message : 'Failed to load NFTs';
       setError(errorMessage);
       if (!silent) toast.error('Error loading NFTs', { description: errorMessage });
     } finally {
-      setLoading(false);
+      if (requestId === loadRequestRef.current) setLoading(false);
     }
   };
 
@@ -91,9 +128,12 @@ export default function Index() {
       );
     }
 
-    filtered = sortListings(filtered, sortType);
+    filtered = applyListingFilters(filtered, filters, ethPriceUSD);
+    filtered = sortListings(filtered, sortType, ethPriceUSD);
     setDisplayListings(filtered);
-  }, [listings, hideZeroPoints, sortType]);
+  }, [listings, hideZeroPoints, filters, sortType, ethPriceUSD]);
+
+  const filterBounds = useMemo(() => getFilterBounds(listings, ethPriceUSD), [listings, ethPriceUSD]);
 
   return (
     <PageLayout>
@@ -109,9 +149,9 @@ export default function Index() {
             nftType={nftType}
             sortType={sortType}
             hideZeroPoints={hideZeroPoints}
-            onNFTTypeChange={setNftType}
-            onSortTypeChange={setSortType}
-            onToggleZeroPoints={() => setHideZeroPoints(!hideZeroPoints)}
+            onNFTTypeChange={(type) => setQuery({ type })}
+            onSortTypeChange={(sort) => setQuery({ sort })}
+            onToggleZeroPoints={() => setQuery({ hideZero: !hideZeroPoints })}
             onLoadNFTs={() => loadNFTs(false)}
             loading={loading}
           />
@@ -132,8 +172,15 @@ export default function Index() {
             </SheetContent>
           </Sheet>
         </div>
+        <div className="mt-3 pt-3 border-t border-border">
+          <AdvancedFilters filters={filters} bounds={filterBounds} onChange={setFilters} />
+        </div>
       </div>
 
+      <MarketOverview nftType={nftType} listings={listings} listingsType={listingsType} />
+
+      <FloorHistory nftType={nftType} />
+
       {/* Layout: [left ad] [grid] [recent sales] [right ad] only on xl+ */}
       <div className="grid grid-cols-1 xl:grid-cols-[120px_1fr_300px_120px] gap-4 lg:gap-6 animate-slide-up stagger-2">
         <aside className="hidden xl:block xl:sticky xl:top-4 xl:self-start">
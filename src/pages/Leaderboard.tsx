@@ -1,4 +1,5 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
 import { Trophy, Search, ExternalLink, Tag, Loader2, Crown, Medal, Award, RefreshCw, ChevronLeft, ChevronRight, Info } from 'lucide-react';
 import {
   Tooltip,
@@ -11,8 +12,16 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
-import { NFTType } from '@/utils/api';
+import { COLLECTION_SLUGS, NFTType, PointsProjection, SeedRank, formatNumber, getSeedPath } from '@/utils/api';
+import { fetchMedianEthPerPoint } from '@/utils/market';
+import { MOVER_METRICS, rankTitle, toSeedRank } from '@/utils/ranks';
+import { PROJECTION_DAYS, formatPointsPerDay, toPointsProjection } from '@/utils/projections';
+import { useFiatCurrency } from '@/hooks/useFiatCurrency';
+import { enumParam, positiveIntParam, stringParam, useQueryParams } from '@/hooks/useQueryParams';
 import { PageLayout } from '@/components/Layout';
+import { WatchlistButton } from '@/components/WatchlistButton';
+import { LeaderboardMovers, RankChange } from '@/components/LeaderboardMovers';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   Select,
   SelectContent,
@@ -28,139 +37,217 @@ interface LeaderboardNFT {
   imageUrl: string | null;
   openseaUrl: string | null;
   isListed: boolean;
+  rank: SeedRank;
+  // Competition rank within the current filter; null when unranked
+  filteredRank: number | null;
+  // Places climbed since the previous refresh
+  rankDelta: number | null;
+  projection: PointsProjection | null;
+}
+
+interface LeaderboardStats {
+  seedCount: number;
+  totalPoints: number;
+  zeroPointsCount: number;
 }
 
 interface CacheMeta {
   status: string;
   lastCompletedAt: string | null;
+  phase: string;
+  processedTotal: number;
+  progressMessage: string | null;
 }
 
-type ListedFilter = 'all' | 'listed' | 'not-listed';
-type TypeFilter = 'all' | 'Mythic' | 'Ancient';
-type RankMode = 'global' | 'filtered';
+const LISTED_FILTERS = ['all', 'listed', 'not-listed'] as const;
+const TYPE_FILTERS = ['all', 'Mythic', 'Ancient'] as const;
+const RANK_MODES = ['global', 'type', 'filtered'] as const;
+const TABS = ['ranking', 'movers'] as const;
+
+type ListedFilter = typeof LISTED_FILTERS[number];
+type TypeFilter = typeof TYPE_FILTERS[number];
+type RankMode = typeof RANK_MODES[number];
+type Tab = typeof TABS[number];
+
+const QUERY_PARAMS = {
+  type: enumParam(TYPE_FILTERS, 'all'),
+  listed: enumParam(LISTED_FILTERS, 'all'),
+  rank: enumParam(RANK_MODES, 'global'),
+  q: stringParam(),
+  page: positiveIntParam(),
+  tab: enumParam(TABS, 'ranking'),
+  by: enumParam(MOVER_METRICS, 'points'),
+};
 
 const ITEMS_PER_PAGE = 10;
+const TOTAL_NFTS = 6332;
+const META_POLL_INTERVAL = 5000;
+// Wait for typing to pause before querying
+const SEARCH_DEBOUNCE_MS = 250;
+// Sales window used for the estimated value column
+const VALUATION_RANGE = '30d';
 
 export default function Leaderboard() {
-  const [allNFTs, setAllNFTs] = useState<LeaderboardNFT[]>([]);
+  const [pageNFTs, setPageNFTs] = useState<LeaderboardNFT[]>([]);
+  const [filteredCount, setFilteredCount] = useState(0);
+  const [stats, setStats] = useState<Partial<Record<NFTType, LeaderboardStats>>>({});
+  const [searchedNFTPosition, setSearchedNFTPosition] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
   const [cacheMeta, setCacheMeta] = useState<CacheMeta | null>(null);
-  const [currentPage, setCurrentPage] = useState(1);
-  const [listedFilter, setListedFilter] = useState<ListedFilter>('all');
-  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
-  const [rankMode, setRankMode] = useState<RankMode>('global');
-  const [refreshProgressPercent, setRefreshProgressPercent] = useState(0);
-  const [zeroPointsCount, setZeroPointsCount] = useState<number>(0);
-  const [refreshProgress, setRefreshProgress] = useState<string>('');
-
-  // Calculate totals
-  const totalPoints = useMemo(() => allNFTs.reduce((sum, nft) => sum + nft.points, 0), [allNFTs]);
-  const mythicPoints = useMemo(() => allNFTs.filter(n => n.nftType === 'Mythic').reduce((sum, nft) => sum + nft.points, 0), [allNFTs]);
-  const ancientPoints = useMemo(() => allNFTs.filter(n => n.nftType === 'Ancient').reduce((sum, nft) => sum + nft.points, 0), [allNFTs]);
-
-  // Filter by type, listed status and search
-  const filteredNFTs = useMemo(() => {
-    let result = allNFTs;
-    
-    if (typeFilter !== 'all') {
-      result = result.filter(nft => nft.nftType === typeFilter);
-    }
-    
-    if (listedFilter === 'listed') {
-      result = result.filter(nft => nft.isListed);
-    } else if (listedFilter === 'not-listed') {
-      result = result.filter(nft => !nft.isListed);
-    }
-    
-    if (searchQuery.trim()) {
-      result = result.filter(nft => nft.tokenId.toLowerCase().includes(searchQuery.toLowerCase()));
-    }
-    
-    return result;
-  }, [allNFTs, searchQuery, listedFilter, typeFilter]);
+  const [query, setQuery] = useQueryParams(QUERY_PARAMS);
+  const { type: typeFilter, listed: listedFilter, rank: rankMode, q: searchQuery, tab } = query;
+  const [requestingRefresh, setRequestingRefresh] = useState(false);
+  const [ethPerPoint, setEthPerPoint] = useState<Partial<Record<NFTType, number | null>>>({});
+  const { formatEth } = useFiatCurrency();
+
+  // The refresh itself is driven server-side by leaderboard-scheduler
+  const refreshing = requestingRefresh || (!!cacheMeta && cacheMeta.phase !== 'idle');
+  const refreshProgressPercent = cacheMeta?.phase === 'refresh'
+    ? Math.min(Math.round((cacheMeta.processedTotal / TOTAL_NFTS) * 100), 99)
+    : cacheMeta?.phase === 'retry_zeros' ? 100 : 0;
+
+  // Totals from get_leaderboard_stats
+  const mythicStats = stats.Mythic;
+  const ancientStats = stats.Ancient;
+  const totalSeeds = (mythicStats?.seedCount ?? 0) + (ancientStats?.seedCount ?? 0);
+  const totalPoints = (mythicStats?.totalPoints ?? 0) + (ancientStats?.totalPoints ?? 0);
+  const zeroPointsCount = (mythicStats?.zeroPointsCount ?? 0) + (ancientStats?.zeroPointsCount ?? 0);
+
+  const totalPages = Math.ceil(filteredCount / ITEMS_PER_PAGE);
+  const currentPage = query.page;
+  const setCurrentPage = (page: number) => setQuery({ page });
+
+  // Responses can arrive out of order while filters change quickly
+  const pageRequestRef = useRef(0);
+
+  const loadMeta = async (): Promise<CacheMeta | null> => {
+    const { data: meta } = await supabase
+      .from('leaderboard_meta')
+      .select('*')
+      .eq('cache_key', 'leaderboard_v1')
+      .maybeSingle();
+
+    if (!meta) return null;
+
+    const next: CacheMeta = {
+      status: meta.status,
+      lastCompletedAt: meta.last_completed_at,
+      phase: meta.phase,
+      processedTotal: meta.processed_total,
+      progressMessage: meta.progress_message,
+    };
+    setCacheMeta(next);
+    return next;
+  };
 
-  // Pagination
-  const totalPages = Math.ceil(filteredNFTs.length / ITEMS_PER_PAGE);
-  const paginatedNFTs = useMemo(() => {
-    const start = (currentPage - 1) * ITEMS_PER_PAGE;
-    return filteredNFTs.slice(start, start + ITEMS_PER_PAGE);
-  }, [filteredNFTs, currentPage]);
+  const loadStats = async (): Promise<number> => {
+    try {
+      const { data, error } = await supabase.rpc('get_leaderboard_stats');
+      if (error) throw error;
 
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [searchQuery, listedFilter, typeFilter]);
+      const next: Partial<Record<NFTType, LeaderboardStats>> = {};
+      for (const row of data || []) {
+        next[row.nft_type as NFTType] = {
+          seedCount: Number(row.seed_count),
+          totalPoints: Number(row.total_points),
+          zeroPointsCount: Number(row.zero_points_count),
+        };
+      }
+      setStats(next);
 
-  const searchedNFTPosition = useMemo(() => {
-    if (!searchQuery.trim()) return null;
-    const exactMatch = allNFTs.findIndex(nft => nft.tokenId === searchQuery.trim());
-    return exactMatch !== -1 ? exactMatch + 1 : null;
-  }, [allNFTs, searchQuery]);
+      const total = Object.values(next).reduce((sum, s) => sum + s.seedCount, 0);
+      if (total === 0) {
+        toast.info('No cached data yet. Click refresh to load leaderboard.');
+      }
+      return total;
+    } catch (err) {
+      console.error('Error loading leaderboard stats:', err);
+      return 0;
+    }
+  };
 
-  const loadFromCache = async (): Promise<{ zeros: number; total: number }> => {
-    setLoading(true);
+  const loadPage = async () => {
+    const requestId = ++pageRequestRef.current;
+    const search = searchQuery.trim();
     try {
-      let allEntries: any[] = [];
-      let from = 0;
-      const pageSize = 1000;
-      
-      while (true) {
-        const { data: entries, error } = await supabase
-          .from('leaderboard_entries')
-          .select('*')
-          .order('points', { ascending: false })
-          .range(from, from + pageSize - 1);
-
-        if (error) throw error;
-        if (!entries || entries.length === 0) break;
-        
-        allEntries = [...allEntries, ...entries];
-        if (entries.length < pageSize) break;
-        from += pageSize;
+      const { data, error } = await supabase.rpc('get_leaderboard_page', {
+        p_nft_type: typeFilter === 'all' ? undefined : typeFilter,
+        p_listed: listedFilter === 'all' ? undefined : listedFilter === 'listed',
+        p_search: search || undefined,
+        p_page: query.page,
+        p_page_size: ITEMS_PER_PAGE,
+      });
+      if (error) throw error;
+      if (requestId !== pageRequestRef.current) return;
+
+      const rows = data || [];
+      const total = rows.length > 0 ? Number(rows[0].total_count) : 0;
+
+      // A page past the end (e.g. from an old link) jumps to the last one
+      if (rows.length === 0 && query.page > 1) {
+        const lastPage = await fetchLastPage();
+        if (requestId !== pageRequestRef.current) return;
+        if (lastPage < query.page) {
+          setQuery({ page: lastPage }, { replace: true });
+          return;
+        }
       }
 
-      const nfts: LeaderboardNFT[] = allEntries.map((e: any) => ({
+      setPageNFTs(rows.map((e) => ({
         tokenId: e.token_id,
         nftType: e.nft_type as NFTType,
         points: Number(e.points),
         imageUrl: e.image_url,
         openseaUrl: e.opensea_url,
         isListed: e.is_listed,
-      }));
-
-      setAllNFTs(nfts);
-      
-      const zeros = nfts.filter(n => n.points === 0).length;
-      setZeroPointsCount(zeros);
-
-      const { data: meta } = await supabase
-        .from('leaderboard_meta')
-        .select('*')
-        .eq('cache_key', 'leaderboard_v1')
-        .maybeSingle();
-
-      if (meta) {
-        setCacheMeta({
-          status: meta.status,
-          lastCompletedAt: meta.last_completed_at,
-        });
-      }
-
-      if (nfts.length === 0) {
-        toast.info('No cached data yet. Click refresh to load leaderboard.');
-      }
-
-      return { zeros, total: nfts.length };
+        rank: toSeedRank(e),
+        filteredRank: e.filtered_rank !== null ? Number(e.filtered_rank) : null,
+        rankDelta: e.rank_delta,
+        projection: toPointsProjection(e),
+      })));
+      setFilteredCount(total);
+      setSearchedNFTPosition(search ? await fetchExactRank(search) : null);
     } catch (err) {
-      console.error('Error loading from cache:', err);
+      console.error('Error loading leaderboard page:', err);
       toast.error('Failed to load leaderboard');
-      return { zeros: 0, total: 0 };
     } finally {
-      setLoading(false);
+      if (requestId === pageRequestRef.current) setLoading(false);
     }
   };
 
+  // Total of the current filter when the requested page is empty
+  const fetchLastPage = async (): Promise<number> => {
+    const { data } = await supabase.rpc('get_leaderboard_page', {
+      p_nft_type: typeFilter === 'all' ? undefined : typeFilter,
+      p_listed: listedFilter === 'all' ? undefined : listedFilter === 'listed',
+      p_search: searchQuery.trim() || undefined,
+      p_page: 1,
+      p_page_size: 1,
+    });
+    const total = data?.length ? Number(data[0].total_count) : 0;
+    return Math.max(Math.ceil(total / ITEMS_PER_PAGE), 1);
+  };
+
+  // Global rank of an exactly matching seed in the selected collection, for the badge in the search box
+  const fetchExactRank = async (tokenId: string): Promise<number | null> => {
+    let query = supabase
+      .from('leaderboard_entries')
+      .select('global_rank')
+      .eq('token_id', tokenId)
+      .not('global_rank', 'is', null);
+    if (typeFilter !== 'all') query = query.eq('nft_type', typeFilter);
+
+    const { data: match } = await query
+      .order('global_rank', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+    return match?.global_rank ?? null;
+  };
+
+  const reload = async () => {
+    await Promise.all([loadStats(), loadPage(), loadMeta()]);
+  };
+
   const getDataStatus = () => {
     if (refreshing) return { label: 'Updating…', variant: 'secondary' as const };
     if (cacheMeta?.status === 'running') return { label: 'Update running…', variant: 'secondary' as const };
@@ -169,143 +256,62 @@ export default function Leaderboard() {
     return { label: 'All loaded', variant: 'secondary' as const };
   };
 
-  const runZeroRepair = async () => {
-    const maxIterations = 12;
-    let iterations = 0;
-    let lastRemaining: number | null = null;
-    let noProgressStreak = 0;
-
-    while (iterations < maxIterations) {
-      iterations++;
-
-      const { data, error } = await supabase.functions.invoke('leaderboard-retry-zeros', {
-        body: {},
+  const requestRefresh = async () => {
+    setRequestingRefresh(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('leaderboard-scheduler', {
+        body: { start: true },
       });
 
       if (error) throw error;
 
-      const remaining = typeof data?.remainingZeros === 'number' ? data.remainingZeros : null;
-      const message = data?.message || 'Fixing missing points…';
-      setRefreshProgress(message);
-
-      if (data?.completed) return { completed: true as const, remaining: remaining ?? 0 };
-
-      if (remaining !== null) {
-        if (lastRemaining !== null && remaining >= lastRemaining) {
-          noProgressStreak++;
-        } else {
-          noProgressStreak = 0;
-        }
-        lastRemaining = remaining;
-
-        if (noProgressStreak >= 2) {
-          return { completed: false as const, remaining };
-        }
-      }
-
-      await new Promise(r => setTimeout(r, 600));
+      toast.info(data?.message || 'Refresh scheduled');
+      await loadMeta();
+    } catch (err) {
+      console.error('Refresh error:', err);
+      toast.error('Could not schedule a refresh. Try again later.');
+    } finally {
+      setRequestingRefresh(false);
     }
-
-    return { completed: false as const, remaining: lastRemaining ?? 0 };
   };
 
-  const triggerRefresh = async () => {
-    setRefreshing(true);
-    setRefreshProgress('Starting...');
-    setRefreshProgressPercent(0);
-    toast.info('Updating leaderboard...');
-
-    let currentCollection = 0;
-    let currentOffset = 0;
-    const maxIterations = 50;
-    let iterations = 0;
-    const totalNFTs = 6332;
-
-    try {
-      while (iterations < maxIterations) {
-        iterations++;
-        
-        const { data, error } = await supabase.functions.invoke('leaderboard-refresh', {
-          body: { currentCollection, currentOffset },
-        });
-
-        const status = (error as any)?.context?.status ?? (error as any)?.status;
-        if (error && status === 409) {
-          toast.info('Refresh is already running. Please wait...');
-          await new Promise(r => setTimeout(r, 3000));
-          const { data: meta } = await supabase
-            .from('leaderboard_meta')
-            .select('status')
-            .eq('cache_key', 'leaderboard_v1')
-            .maybeSingle();
-          
-          if (meta?.status === 'idle') {
-            toast.success('Leaderboard refreshed!');
-            setRefreshProgressPercent(100);
-            await loadFromCache();
-            return;
-          }
-          continue;
-        }
-
-        if (error) throw error;
-
-        if (data?.message) {
-          setRefreshProgress(data.message);
-        }
-        
-        if (data?.processedTotal !== undefined) {
-          const percent = Math.round((data.processedTotal / totalNFTs) * 100);
-          setRefreshProgressPercent(Math.min(percent, 99));
-        }
-
-        if (data?.completed) {
-          setRefreshProgressPercent(100);
-          setRefreshProgress('Checking missing points…');
-          const { zeros } = await loadFromCache();
-
-          if (zeros > 0) {
-            const result = await runZeroRepair();
-            await loadFromCache();
+  useEffect(() => {
+    loadStats();
+    loadMeta();
+  }, []);
 
-            if (result.completed) {
-              toast.success('Leaderboard updated!');
-            } else {
-              toast.warning(`Updated, but ${result.remaining} seeds show 0 points.`);
-            }
-          } else {
-            toast.success('Leaderboard updated.');
-          }
+  useEffect(() => {
+    const timeout = setTimeout(loadPage, searchQuery ? SEARCH_DEBOUNCE_MS : 0);
+    return () => clearTimeout(timeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [typeFilter, listedFilter, searchQuery, query.page]);
 
-          return;
-        }
+  useEffect(() => {
+    const types = Object.keys(COLLECTION_SLUGS) as NFTType[];
+    Promise.all(types.map(async (nftType) => [nftType, await fetchMedianEthPerPoint(nftType, VALUATION_RANGE)] as const))
+      .then((entries) => setEthPerPoint(Object.fromEntries(entries)))
+      .catch((err) => console.warn('Failed to load sale prices for valuation:', err));
+  }, []);
 
-        if (data?.nextCollection !== undefined) {
-          currentCollection = data.nextCollection;
-          currentOffset = data.nextOffset ?? 0;
-        } else {
-          throw new Error('Invalid response from refresh function');
-        }
+  // Poll refresh progress while the server is working, reload when it finishes
+  const activePhase = cacheMeta?.phase ?? 'idle';
+  useEffect(() => {
+    if (activePhase === 'idle') return;
 
-        await new Promise(r => setTimeout(r, 500));
+    const interval = setInterval(async () => {
+      const meta = await loadMeta();
+      if (meta?.phase === 'idle') {
+        await reload();
+        toast.success('Leaderboard updated!');
       }
+    }, META_POLL_INTERVAL);
 
-      toast.warning('Refresh took too long. Please try again.');
-    } catch (err) {
-      console.error('Refresh error:', err);
-      toast.error('Refresh failed. Try again later.');
-    } finally {
-      setRefreshing(false);
-      setRefreshProgress('');
-      setRefreshProgressPercent(0);
-    }
-  };
+    return () => clearInterval(interval);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activePhase]);
 
-  useEffect(() => {
-    loadFromCache();
-  }, []);
-
-  const getRankIcon = (rank: number) => {
+  const getRankIcon = (rank: number | null) => {
+    if (rank === null) return <span className="w-5 text-center font-mono text-muted-foreground text-sm">–</span>;
     if (rank === 1) return <Crown className="w-5 h-5 text-yellow-500" />;
     if (rank === 2) return <Medal className="w-5 h-5 text-gray-400" />;
     if (rank === 3) return <Award className="w-5 h-5 text-amber-600" />;
@@ -325,20 +331,27 @@ export default function Leaderboard() {
         <div className="bg-card/80 backdrop-blur-md rounded-xl p-4 md:p-5 text-center hover-lift border border-primary/20">
           <p className="text-xs md:text-sm text-muted-foreground mb-1">Total Points</p>
           <p className="text-xl md:text-2xl lg:text-3xl font-bold text-primary">{totalPoints.toLocaleString()}</p>
-          <p className="text-xs text-muted-foreground mt-1">{allNFTs.length} seeds</p>
+          <p className="text-xs text-muted-foreground mt-1">{totalSeeds} seeds</p>
         </div>
         <div className="bg-card/80 backdrop-blur-md rounded-xl p-4 md:p-5 text-center hover-lift border border-purple-500/20">
           <p className="text-xs md:text-sm text-muted-foreground mb-1">Mythic Points</p>
-          <p className="text-xl md:text-2xl lg:text-3xl font-bold text-purple-500">{mythicPoints.toLocaleString()}</p>
-          <p className="text-xs text-muted-foreground mt-1">{allNFTs.filter(n => n.nftType === 'Mythic').length} seeds</p>
+          <p className="text-xl md:text-2xl lg:text-3xl font-bold text-purple-500">{(mythicStats?.totalPoints ?? 0).toLocaleString()}</p>
+          <p className="text-xs text-muted-foreground mt-1">{mythicStats?.seedCount ?? 0} seeds</p>
         </div>
         <div className="bg-card/80 backdrop-blur-md rounded-xl p-4 md:p-5 text-center hover-lift border border-amber-500/20">
           <p className="text-xs md:text-sm text-muted-foreground mb-1">Ancient Points</p>
-          <p className="text-xl md:text-2xl lg:text-3xl font-bold text-amber-500">{ancientPoints.toLocaleString()}</p>
-          <p className="text-xs text-muted-foreground mt-1">{allNFTs.filter(n => n.nftType === 'Ancient').length} seeds</p>
+          <p className="text-xl md:text-2xl lg:text-3xl font-bold text-amber-500">{(ancientStats?.totalPoints ?? 0).toLocaleString()}</p>
+          <p className="text-xs text-muted-foreground mt-1">{ancientStats?.seedCount ?? 0} seeds</p>
         </div>
       </div>
 
+      <Tabs value={tab} onValueChange={(v) => setQuery({ tab: v as Tab })} className="flex justify-center mb-4 animate-slide-up stagger-2">
+        <TabsList>
+          <TabsTrigger value="ranking">Ranking</TabsTrigger>
+          <TabsTrigger value="movers">Movers</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
       {/* Controls Card */}
       <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card p-4 md:p-6 mb-6 animate-slide-up stagger-2">
         {/* Refresh Controls */}
@@ -358,7 +371,9 @@ export default function Leaderboard() {
                   </button>
                 </TooltipTrigger>
                 <TooltipContent side="bottom" className="max-w-[250px] text-center">
-                  <p className="text-xs">Refresh updates the leaderboard and fixes missing points.</p>
+                  <p className="text-xs">
+                    {cacheMeta?.progressMessage || 'The leaderboard refreshes automatically on a schedule. Refresh requests an update now.'}
+                  </p>
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
@@ -381,7 +396,7 @@ export default function Leaderboard() {
             <Button
               variant="outline"
               size="sm"
-              onClick={triggerRefresh}
+              onClick={requestRefresh}
               disabled={refreshing}
               className="hover:scale-105 transition-transform"
             >
@@ -393,23 +408,25 @@ export default function Leaderboard() {
 
         {/* Search and Filters */}
         <div className="flex flex-col gap-3">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-            <Input
-              placeholder="Search by Seed ID..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="pl-10"
-            />
-            {searchedNFTPosition && (
-              <div className="absolute right-3 top-1/2 -translate-y-1/2">
-                <Badge variant="secondary" className="text-xs">Rank #{searchedNFTPosition}</Badge>
-              </div>
-            )}
-          </div>
+          {tab === 'ranking' && (
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by Seed ID..."
+                value={searchQuery}
+                onChange={(e) => setQuery({ q: e.target.value, page: 1 }, { replace: true })}
+                className="pl-10"
+              />
+              {searchedNFTPosition && (
+                <div className="absolute right-3 top-1/2 -translate-y-1/2">
+                  <Badge variant="secondary" className="text-xs">Rank #{searchedNFTPosition}</Badge>
+                </div>
+              )}
+            </div>
+          )}
           
           <div className="flex flex-wrap gap-2 justify-center">
-            <Select value={typeFilter} onValueChange={(v) => setTypeFilter(v as TypeFilter)}>
+            <Select value={typeFilter} onValueChange={(v) => setQuery({ type: v as TypeFilter, page: 1 })}>
               <SelectTrigger className="w-[110px] md:w-[130px] text-xs md:text-sm">
                 <SelectValue placeholder="Type" />
               </SelectTrigger>
@@ -420,29 +437,34 @@ export default function Leaderboard() {
               </SelectContent>
             </Select>
             
-            <Select value={listedFilter} onValueChange={(v) => setListedFilter(v as ListedFilter)}>
-              <SelectTrigger className="w-[110px] md:w-[130px] text-xs md:text-sm">
-                <SelectValue placeholder="State" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All States</SelectItem>
-                <SelectItem value="listed">Listed</SelectItem>
-                <SelectItem value="not-listed">Not Listed</SelectItem>
-              </SelectContent>
-            </Select>
-            
-            <Select value={rankMode} onValueChange={(v) => setRankMode(v as RankMode)}>
-              <SelectTrigger className="w-[120px] md:w-[140px] text-xs md:text-sm">
-                <SelectValue placeholder="Rank Mode" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="global">Global Rank</SelectItem>
-                <SelectItem value="filtered">Filtered Rank</SelectItem>
-              </SelectContent>
-            </Select>
+            {tab === 'ranking' && (
+              <>
+                <Select value={listedFilter} onValueChange={(v) => setQuery({ listed: v as ListedFilter, page: 1 })}>
+                  <SelectTrigger className="w-[110px] md:w-[130px] text-xs md:text-sm">
+                    <SelectValue placeholder="State" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All States</SelectItem>
+                    <SelectItem value="listed">Listed</SelectItem>
+                    <SelectItem value="not-listed">Not Listed</SelectItem>
+                  </SelectContent>
+                </Select>
+
+                <Select value={rankMode} onValueChange={(v) => setQuery({ rank: v as RankMode })}>
+                  <SelectTrigger className="w-[120px] md:w-[140px] text-xs md:text-sm">
+                    <SelectValue placeholder="Rank Mode" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="global">Global Rank</SelectItem>
+                    <SelectItem value="type">Type Rank</SelectItem>
+                    <SelectItem value="filtered">Filtered Rank</SelectItem>
+                  </SelectContent>
+                </Select>
+              </>
+            )}
           </div>
           
-          {(typeFilter !== 'all' || listedFilter !== 'all') && (
+          {tab === 'ranking' && (typeFilter !== 'all' || listedFilter !== 'all') && (
             <div className="flex items-center justify-center gap-2 text-xs md:text-sm flex-wrap">
               <span className="text-muted-foreground">Showing:</span>
               {typeFilter !== 'all' && (
@@ -455,11 +477,11 @@ export default function Leaderboard() {
                   {listedFilter === 'listed' ? 'Listed' : 'Not Listed'}
                 </Badge>
               )}
-              <span className="text-muted-foreground">({filteredNFTs.length})</span>
+              <span className="text-muted-foreground">({filteredCount})</span>
               <Button 
                 variant="ghost" 
                 size="sm" 
-                onClick={() => { setTypeFilter('all'); setListedFilter('all'); }}
+                onClick={() => setQuery({ type: 'all', listed: 'all', page: 1 })}
                 className="text-xs h-6 px-2"
               >
                 Clear
@@ -469,8 +491,18 @@ export default function Leaderboard() {
         </div>
       </div>
 
+      {/* Movers */}
+      {tab === 'movers' && (
+        <LeaderboardMovers
+          nftType={typeFilter === 'all' ? null : typeFilter}
+          metric={query.by}
+          onMetricChange={(by) => setQuery({ by })}
+          lastCompletedAt={cacheMeta?.lastCompletedAt ?? null}
+        />
+      )}
+
       {/* Loading State */}
-      {loading && (
+      {tab === 'ranking' && loading && (
         <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card p-8 md:p-12 text-center animate-fade-in">
           <Loader2 className="w-10 h-10 md:w-12 md:h-12 text-primary animate-spin mx-auto mb-4" />
           <p className="text-base md:text-lg text-muted-foreground">Loading leaderboard...</p>
@@ -478,11 +510,11 @@ export default function Leaderboard() {
       )}
 
       {/* Empty State */}
-      {!loading && allNFTs.length === 0 && (
+      {tab === 'ranking' && !loading && totalSeeds === 0 && (
         <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card p-8 md:p-12 text-center animate-fade-in">
           <Trophy className="w-10 h-10 md:w-12 md:h-12 text-muted-foreground mx-auto mb-4" />
           <p className="text-base md:text-lg text-muted-foreground mb-4">No leaderboard data yet</p>
-          <Button onClick={triggerRefresh} disabled={refreshing} className="hover:scale-105 transition-transform">
+          <Button onClick={requestRefresh} disabled={refreshing} className="hover:scale-105 transition-transform">
             <RefreshCw className={`w-4 h-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
             {refreshing ? 'Loading data...' : 'Load Leaderboard'}
           </Button>
@@ -490,11 +522,11 @@ export default function Leaderboard() {
       )}
 
       {/* Leaderboard Table */}
-      {!loading && filteredNFTs.length > 0 && (
+      {tab === 'ranking' && !loading && filteredCount > 0 && (
         <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card overflow-hidden animate-slide-up stagger-3">
           <div className="px-3 md:px-4 py-2 md:py-3 bg-muted/30 border-b border-border flex items-center justify-between text-xs md:text-sm">
             <span className="text-muted-foreground">
-              {((currentPage - 1) * ITEMS_PER_PAGE) + 1}-{Math.min(currentPage * ITEMS_PER_PAGE, filteredNFTs.length)} of {filteredNFTs.length}
+              {((currentPage - 1) * ITEMS_PER_PAGE) + 1}-{Math.min(currentPage * ITEMS_PER_PAGE, filteredCount)} of {filteredCount}
             </span>
             <span className="text-muted-foreground">
               Page {currentPage}/{totalPages}
@@ -509,16 +541,24 @@ export default function Leaderboard() {
                   <th className="px-2 md:px-4 py-2 md:py-3 text-left text-xs md:text-sm font-semibold text-foreground">Seed</th>
                   <th className="px-2 md:px-4 py-2 md:py-3 text-left text-xs md:text-sm font-semibold text-foreground hidden sm:table-cell">Type</th>
                   <th className="px-2 md:px-4 py-2 md:py-3 text-right text-xs md:text-sm font-semibold text-foreground">Points</th>
+                  <th
+                    className="px-2 md:px-4 py-2 md:py-3 text-right text-xs md:text-sm font-semibold text-foreground hidden sm:table-cell"
+                    title={`Points × median price per point of ${VALUATION_RANGE} sales`}
+                  >
+                    Est. Value
+                  </th>
                   <th className="px-2 md:px-4 py-2 md:py-3 text-center text-xs md:text-sm font-semibold text-foreground hidden md:table-cell">Status</th>
                   <th className="px-2 md:px-4 py-2 md:py-3 text-center text-xs md:text-sm font-semibold text-foreground">Link</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-border">
-                {paginatedNFTs.map((nft) => {
-                  const globalRank = allNFTs.findIndex(n => n.tokenId === nft.tokenId && n.nftType === nft.nftType) + 1;
-                  const filteredRank = filteredNFTs.findIndex(n => n.tokenId === nft.tokenId && n.nftType === nft.nftType) + 1;
-                  const displayRank = rankMode === 'global' ? globalRank : filteredRank;
+                {pageNFTs.map((nft) => {
+                  const displayRank = rankMode === 'global' ? nft.rank.global
+                    : rankMode === 'type' ? nft.rank.type
+                    : nft.filteredRank;
                   const isHighlighted = searchQuery.trim() && nft.tokenId.includes(searchQuery.trim());
+                  const medianEthPerPoint = ethPerPoint[nft.nftType];
+                  const estimatedEth = medianEthPerPoint && nft.points > 0 ? medianEthPerPoint * nft.points : null;
 
                   return (
                     <tr
@@ -526,10 +566,13 @@ export default function Leaderboard() {
                       className={`transition-colors hover:bg-muted/30 ${isHighlighted ? 'bg-primary/10' : ''}`}
                     >
                       <td className="px-2 md:px-4 py-2 md:py-3">
-                        <div className="flex items-center gap-1">{getRankIcon(displayRank)}</div>
+                        <div className="flex items-center gap-1" title={rankTitle(nft.nftType, nft.rank) || 'Unranked (0 points)'}>
+                          {getRankIcon(displayRank)}
+                          <RankChange delta={nft.rankDelta} />
+                        </div>
                       </td>
                       <td className="px-2 md:px-4 py-2 md:py-3">
-                        <div className="flex items-center gap-2">
+                        <Link to={getSeedPath(nft.nftType, nft.tokenId)} className="flex items-center gap-2 group">
                           {nft.imageUrl ? (
                             <img src={nft.imageUrl} alt={`Seed #${nft.tokenId}`} className="w-8 h-8 md:w-10 md:h-10 rounded-lg object-cover" />
                           ) : (
@@ -538,7 +581,7 @@ export default function Leaderboard() {
                             </div>
                           )}
                           <div className="flex flex-col">
-                            <span className="font-medium text-xs md:text-sm">#{nft.tokenId}</span>
+                            <span className="font-medium text-xs md:text-sm group-hover:text-primary group-hover:underline">#{nft.tokenId}</span>
                             <Badge
                               variant="secondary"
                               className={`sm:hidden text-[10px] w-fit ${nft.nftType === 'Mythic' ? 'bg-purple-500/20 text-purple-600' : 'bg-amber-500/20 text-amber-600'}`}
@@ -546,7 +589,7 @@ export default function Leaderboard() {
                               {nft.nftType}
                             </Badge>
                           </div>
-                        </div>
+                        </Link>
                       </td>
                       <td className="px-2 md:px-4 py-2 md:py-3 hidden sm:table-cell">
                         <Badge
@@ -557,7 +600,27 @@ export default function Leaderboard() {
                         </Badge>
                       </td>
                       <td className="px-2 md:px-4 py-2 md:py-3 text-right">
-                        <span className="font-bold text-primary text-xs md:text-sm">{nft.points.toLocaleString()}</span>
+                        <div className="flex flex-col items-end">
+                          <span className="font-bold text-primary text-xs md:text-sm">{nft.points.toLocaleString()}</span>
+                          {nft.projection && (
+                            <span
+                              className="text-[10px] text-muted-foreground"
+                              title={`~${formatNumber(nft.projection.projected30d)} pts in ${PROJECTION_DAYS}d`}
+                            >
+                              {formatPointsPerDay(nft.projection.pointsPerDay)}
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-2 md:px-4 py-2 md:py-3 text-right hidden sm:table-cell">
+                        {estimatedEth !== null ? (
+                          <div className="flex flex-col items-end">
+                            <span className="font-semibold text-xs md:text-sm">~{formatEth(estimatedEth)}</span>
+                            <span className="text-[10px] text-muted-foreground">{estimatedEth.toFixed(4)} ETH</span>
+                          </div>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">–</span>
+                        )}
                       </td>
                       <td className="px-2 md:px-4 py-2 md:py-3 text-center hidden md:table-cell">
                         {nft.isListed ? (
@@ -570,6 +633,7 @@ export default function Leaderboard() {
                         )}
                       </td>
                       <td className="px-2 md:px-4 py-2 md:py-3 text-center">
+                        <WatchlistButton nftType={nft.nftType} tokenId={nft.tokenId} className="inline-flex align-middle" />
                         {nft.openseaUrl && (
                           <Button
                             variant="ghost"
@@ -604,7 +668,7 @@ export default function Leaderboard() {
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+                onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
                 disabled={currentPage === 1}
                 className="h-8 w-8 p-0"
               >
@@ -640,7 +704,7 @@ export default function Leaderboard() {
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
+                onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
                 disabled={currentPage === totalPages}
                 className="h-8 w-8 p-0"
               >
@@ -661,7 +725,7 @@ export default function Leaderboard() {
       )}
 
       {/* No search results */}
-      {!loading && filteredNFTs.length === 0 && allNFTs.length > 0 && (
+      {tab === 'ranking' && !loading && filteredCount === 0 && totalSeeds > 0 && (
         <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card p-8 md:p-12 text-center animate-fade-in">
           <Search className="w-10 h-10 md:w-12 md:h-12 text-muted-foreground mx-auto mb-4" />
           <p className="text-base md:text-lg text-muted-foreground">No seeds found matching "{searchQuery}"</p>
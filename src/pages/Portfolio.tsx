@@ -0,0 +1,240 @@
+import { useState, useEffect, FormEvent } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Wallet, Search, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { PageLayout } from '@/components/Layout';
+import { supabase } from '@/integrations/supabase/client';
+import { useFiatCurrency } from '@/hooks/useFiatCurrency';
+import { COLLECTION_SLUGS, NFTType, SeedRank, formatNumber, getSeedPath } from '@/utils/api';
+import { fetchMedianEthPerPoint } from '@/utils/market';
+import { RANK_COLUMNS, rankTitle, toSeedRank } from '@/utils/ranks';
+
+interface AccountNFT {
+  nftType: NFTType;
+  tokenId: string;
+  imageUrl: string | null;
+}
+
+interface PortfolioSeed extends AccountNFT {
+  points: number;
+  rank: SeedRank | null;
+  estimatedEth: number | null;
+}
+
+// Sales window used for the ETH-per-point estimate
+const VALUATION_RANGE = '30d';
+
+function isValidAddress(value: string): boolean {
+  return /^0x[0-9a-fA-F]{40}$/.test(value);
+}
+
+async function loadPortfolio(address: string): Promise<PortfolioSeed[]> {
+  const { data, error } = await supabase.functions.invoke('opensea-account-nfts', {
+    body: { address },
+  });
+  if (error) throw error;
+
+  const nfts = (data?.nfts || []) as AccountNFT[];
+  const types = (Object.keys(COLLECTION_SLUGS) as NFTType[]).filter(type => nfts.some(n => n.nftType === type));
+
+  const perType = await Promise.all(types.map(async (nftType) => {
+    const owned = nfts.filter(n => n.nftType === nftType);
+    const [{ data: entries }, ethPerPoint] = await Promise.all([
+      supabase
+        .from('leaderboard_entries')
+        .select(`token_id, points, ${RANK_COLUMNS}`)
+        .eq('collection_slug', COLLECTION_SLUGS[nftType])
+        .in('token_id', owned.map(n => n.tokenId)),
+      fetchMedianEthPerPoint(nftType, VALUATION_RANGE),
+    ]);
+
+    return owned.map((nft) => {
+      const entry = entries?.find(e => e.token_id === nft.tokenId);
+      const points = entry ? Number(entry.points) : 0;
+
+      return {
+        ...nft,
+        points,
+        rank: entry ? toSeedRank(entry) : null,
+        estimatedEth: ethPerPoint !== null && points > 0 ? ethPerPoint * points : null,
+      };
+    });
+  }));
+
+  return perType.flat().sort((a, b) => b.points - a.points);
+}
+
+export default function Portfolio() {
+  const { address } = useParams<{ address: string }>();
+  const navigate = useNavigate();
+  const [input, setInput] = useState(address ?? '');
+  const [seeds, setSeeds] = useState<PortfolioSeed[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { formatEth } = useFiatCurrency();
+
+  const validAddress = !!address && isValidAddress(address);
+
+  useEffect(() => {
+    setInput(address ?? '');
+    setSeeds([]);
+    setError(null);
+    if (!address) return;
+
+    if (!isValidAddress(address)) {
+      setError('That does not look like an Ethereum address.');
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    loadPortfolio(address)
+      .then((result) => {
+        if (!cancelled) setSeeds(result);
+      })
+      .catch((err) => {
+        console.error('Error loading portfolio:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load portfolio');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [address]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const trimmed = input.trim();
+    if (trimmed) navigate(`/portfolio/${trimmed}`);
+  };
+
+  const totalPoints = seeds.reduce((sum, s) => sum + s.points, 0);
+  const totalEth = seeds.reduce((sum, s) => sum + (s.estimatedEth ?? 0), 0);
+
+  return (
+    <PageLayout>
+      <form
+        onSubmit={handleSubmit}
+        className="bg-card/80 backdrop-blur-md rounded-xl shadow-card p-4 md:p-6 mb-6 animate-slide-up stagger-1 flex flex-col sm:flex-row gap-3"
+      >
+        <div className="relative flex-1">
+          <Wallet className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Paste a wallet address (0x…)"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            className="pl-10 font-mono text-xs md:text-sm"
+          />
+        </div>
+        <Button type="submit" className="gradient-primary font-semibold" disabled={loading}>
+          <Search className="w-4 h-4 mr-2" />
+          View Portfolio
+        </Button>
+      </form>
+
+      {error && (
+        <div className="p-6 mb-6 bg-destructive/10 border-l-4 border-destructive rounded-lg">
+          <p className="text-destructive font-semibold">{error}</p>
+        </div>
+      )}
+
+      {loading && (
+        <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card p-8 md:p-12 text-center animate-fade-in">
+          <Loader2 className="w-10 h-10 md:w-12 md:h-12 text-primary animate-spin mx-auto mb-4" />
+          <p className="text-base md:text-lg text-muted-foreground">Loading seeds...</p>
+        </div>
+      )}
+
+      {!loading && validAddress && !error && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 md:gap-4 mb-6 animate-slide-up stagger-2">
+            <div className="bg-card/80 backdrop-blur-md rounded-xl p-4 md:p-5 text-center border border-primary/20">
+              <p className="text-xs md:text-sm text-muted-foreground mb-1">Seeds</p>
+              <p className="text-xl md:text-2xl font-bold text-primary">{seeds.length}</p>
+            </div>
+            <div className="bg-card/80 backdrop-blur-md rounded-xl p-4 md:p-5 text-center border border-success/20">
+              <p className="text-xs md:text-sm text-muted-foreground mb-1">Total Points</p>
+              <p className="text-xl md:text-2xl font-bold text-success">{totalPoints.toLocaleString()}</p>
+            </div>
+            <div className="bg-card/80 backdrop-blur-md rounded-xl p-4 md:p-5 text-center border border-accent/20">
+              <p className="text-xs md:text-sm text-muted-foreground mb-1">Estimated Value</p>
+              <p className="text-xl md:text-2xl font-bold text-accent">{totalEth.toFixed(4)} ETH</p>
+              <p className="text-xs text-muted-foreground mt-1">~{formatEth(totalEth)}</p>
+            </div>
+          </div>
+
+          {seeds.length === 0 ? (
+            <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card p-8 md:p-12 text-center animate-fade-in">
+              <p className="text-base md:text-lg text-muted-foreground">This wallet holds no Mythic or Ancient seeds.</p>
+            </div>
+          ) : (
+            <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card overflow-hidden animate-slide-up stagger-3">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50">
+                    <tr>
+                      <th className="px-2 md:px-4 py-2 md:py-3 text-left text-xs md:text-sm font-semibold text-foreground">Seed</th>
+                      <th className="px-2 md:px-4 py-2 md:py-3 text-right text-xs md:text-sm font-semibold text-foreground">Points</th>
+                      <th className="px-2 md:px-4 py-2 md:py-3 text-right text-xs md:text-sm font-semibold text-foreground hidden sm:table-cell">Rank</th>
+                      <th className="px-2 md:px-4 py-2 md:py-3 text-right text-xs md:text-sm font-semibold text-foreground">Est. Value</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {seeds.map((seed) => (
+                      <tr key={`${seed.nftType}-${seed.tokenId}`} className="transition-colors hover:bg-muted/30">
+                        <td className="px-2 md:px-4 py-2 md:py-3">
+                          <Link to={getSeedPath(seed.nftType, seed.tokenId)} className="flex items-center gap-2 group">
+                            {seed.imageUrl ? (
+                              <img src={seed.imageUrl} alt={`Seed #${seed.tokenId}`} className="w-8 h-8 md:w-10 md:h-10 rounded-lg object-cover" />
+                            ) : (
+                              <div className="w-8 h-8 md:w-10 md:h-10 rounded-lg bg-muted" />
+                            )}
+                            <div className="flex flex-col">
+                              <span className="font-medium text-xs md:text-sm group-hover:text-primary group-hover:underline">#{seed.tokenId}</span>
+                              <Badge
+                                variant="secondary"
+                                className={`text-[10px] w-fit ${seed.nftType === 'Mythic' ? 'bg-purple-500/20 text-purple-600' : 'bg-amber-500/20 text-amber-600'}`}
+                              >
+                                {seed.nftType}
+                              </Badge>
+                            </div>
+                          </Link>
+                        </td>
+                        <td className="px-2 md:px-4 py-2 md:py-3 text-right font-semibold text-xs md:text-sm">
+                          {formatNumber(seed.points)}
+                        </td>
+                        <td className="px-2 md:px-4 py-2 md:py-3 text-right text-xs md:text-sm hidden sm:table-cell">
+                          {seed.rank?.global != null ? (
+                            <span title={rankTitle(seed.nftType, seed.rank)}>#{seed.rank.global}</span>
+                          ) : '–'}
+                        </td>
+                        <td className="px-2 md:px-4 py-2 md:py-3 text-right">
+                          {seed.estimatedEth !== null ? (
+                            <div className="flex flex-col items-end">
+                              <span className="font-bold text-primary text-xs md:text-sm">{seed.estimatedEth.toFixed(4)} ETH</span>
+                              <span className="text-[10px] text-muted-foreground">~{formatEth(seed.estimatedEth)}</span>
+                            </div>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">–</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="px-4 py-2 text-[11px] text-muted-foreground border-t border-border">
+                Estimates use the median ETH per point of {VALUATION_RANGE} sales, per collection.
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </PageLayout>
+  );
+}
@@ -0,0 +1,312 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, ExternalLink, Loader2, Star, Tag, Trophy, History } from 'lucide-react';
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { PageLayout } from '@/components/Layout';
+import { supabase } from '@/integrations/supabase/client';
+import { useFiatCurrency } from '@/hooks/useFiatCurrency';
+import {
+  COLLECTION_SLUGS,
+  NFTWithMetadata,
+  SeedRank,
+  fetchNFTListings,
+  formatNumber,
+  getContractFromOpenSeaUrl,
+  getOpenSeaUrl,
+  getPriceValue,
+  parseNFTType,
+} from '@/utils/api';
+import { formatTopPercent, toSeedRank } from '@/utils/ranks';
+
+interface SeedEntry {
+  points: number;
+  imageUrl: string | null;
+  openseaUrl: string | null;
+  isListed: boolean;
+  updatedAt: string;
+}
+
+interface SeedSale {
+  priceEth: number;
+  currency: string;
+  timestamp: number;
+  transaction: string;
+}
+
+interface PointsHistoryPoint {
+  capturedAt: string;
+  points: number;
+}
+
+const chartConfig = {
+  points: {
+    label: 'Points',
+    color: 'hsl(var(--primary))',
+  },
+} satisfies ChartConfig;
+
+export default function SeedDetail() {
+  const { type, tokenId } = useParams<{ type: string; tokenId: string }>();
+  const nftType = parseNFTType(type);
+  const collectionSlug = nftType ? COLLECTION_SLUGS[nftType] : null;
+
+  const [entry, setEntry] = useState<SeedEntry | null>(null);
+  const [ranks, setRanks] = useState<SeedRank | null>(null);
+  const [listing, setListing] = useState<NFTWithMetadata | null>(null);
+  const [sales, setSales] = useState<SeedSale[]>([]);
+  const [history, setHistory] = useState<PointsHistoryPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [listingLoading, setListingLoading] = useState(true);
+  const { toFiat, formatEth, symbol, ethPriceUSD } = useFiatCurrency();
+
+  useEffect(() => {
+    if (!nftType || !collectionSlug || !tokenId) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadEntry = async () => {
+      setLoading(true);
+      try {
+        const { data: row, error } = await supabase
+          .from('leaderboard_entries')
+          .select('*')
+          .eq('collection_slug', collectionSlug)
+          .eq('token_id', tokenId)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (cancelled || !row) return;
+
+        setEntry({
+          points: Number(row.points),
+          imageUrl: row.image_url,
+          openseaUrl: row.opensea_url,
+          isListed: row.is_listed,
+          updatedAt: row.updated_at,
+        });
+
+        setRanks(toSeedRank(row));
+
+        const { data: snapshots } = await supabase
+          .from('leaderboard_snapshots')
+          .select('points, captured_at, leaderboard_runs!inner(completed_at)')
+          .eq('collection_slug', collectionSlug)
+          .eq('token_id', tokenId)
+          .not('leaderboard_runs.completed_at', 'is', null)
+          .order('captured_at', { ascending: true });
+
+        if (cancelled) return;
+        setHistory((snapshots || []).map((s) => ({
+          capturedAt: s.captured_at,
+          points: Number(s.points),
+        })));
+
+        const contractAddress = getContractFromOpenSeaUrl(row.opensea_url);
+        if (contractAddress) {
+          const { data: salesData } = await supabase.functions.invoke('opensea-sales', {
+            body: { collectionSlug, nftType, contractAddress, tokenId, limit: 20 },
+          });
+          if (!cancelled) setSales(salesData?.sales || []);
+        }
+      } catch (err) {
+        console.error(`Error loading seed ${tokenId}:`, err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    const loadListing = async () => {
+      setListingLoading(true);
+      try {
+        const listings = await fetchNFTListings(nftType, ethPriceUSD);
+        if (!cancelled) setListing(listings.find(l => l.tokenId === tokenId) ?? null);
+      } catch (err) {
+        console.warn(`Failed to load listing for seed ${tokenId}:`, err);
+      } finally {
+        if (!cancelled) setListingLoading(false);
+      }
+    };
+
+    loadEntry();
+    loadListing();
+
+    return () => {
+      cancelled = true;
+    };
+    // The rate only picks between duplicate listings; prices are converted on render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [nftType, collectionSlug, tokenId]);
+
+  const chartData = useMemo(() => history.map((h) => ({
+    date: new Date(h.capturedAt).toLocaleDateString([], { month: 'short', day: 'numeric' }),
+    points: h.points,
+  })), [history]);
+
+  const listingPrice = listing ? getPriceValue(listing, ethPriceUSD) : 0;
+  const openSeaUrl = (listing && getOpenSeaUrl(listing)) || entry?.openseaUrl || null;
+
+  if (!nftType || !tokenId) {
+    return (
+      <PageLayout>
+        <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card p-8 md:p-12 text-center animate-fade-in">
+          <p className="text-base md:text-lg text-muted-foreground mb-4">Unknown seed type "{type}"</p>
+          <Link to="/">
+            <Button variant="outline">Back to Viewer</Button>
+          </Link>
+        </div>
+      </PageLayout>
+    );
+  }
+
+  return (
+    <PageLayout>
+      <div className="mb-4 animate-fade-in">
+        <Link to="/" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-primary transition-colors">
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </Link>
+      </div>
+
+      {loading && (
+        <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card p-8 md:p-12 text-center animate-fade-in">
+          <Loader2 className="w-10 h-10 md:w-12 md:h-12 text-primary animate-spin mx-auto mb-4" />
+          <p className="text-base md:text-lg text-muted-foreground">Loading seed...</p>
+        </div>
+      )}
+
+      {!loading && !entry && (
+        <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card p-8 md:p-12 text-center animate-fade-in">
+          <p className="text-base md:text-lg text-muted-foreground">
+            {nftType} Seed #{tokenId} is not on the leaderboard yet.
+          </p>
+        </div>
+      )}
+
+      {!loading && entry && (
+        <div className="grid grid-cols-1 lg:grid-cols-[320px_1fr] gap-4 lg:gap-6 animate-slide-up stagger-1">
+          {/* Seed Card */}
+          <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card overflow-hidden">
+            <div className="relative w-full aspect-square bg-secondary">
+              {entry.imageUrl ? (
+                <img src={entry.imageUrl} alt={`Seed #${tokenId}`} className="w-full h-full object-cover" />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-muted-foreground">#{tokenId}</div>
+              )}
+              <Badge className="absolute top-3 right-3 gradient-primary text-primary-foreground font-bold uppercase text-xs shadow-lg">
+                {nftType}
+              </Badge>
+            </div>
+            <div className="p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold">{nftType} Seed #{tokenId}</h2>
+                {openSeaUrl && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => window.open(openSeaUrl, '_blank', 'noopener,noreferrer')}
+                    title="View on OpenSea"
+                    className="h-8 w-8 p-0"
+                  >
+                    <ExternalLink className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <div className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-success/15 text-success border border-success/20 font-semibold">
+                  <Star className="w-3.5 h-3.5" />
+                  <span>{formatNumber(entry.points)} pts</span>
+                </div>
+                <div className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-primary/10 text-primary border border-primary/20 font-semibold">
+                  <Trophy className="w-3.5 h-3.5" />
+                  <span>#{ranks?.global ?? '–'} global</span>
+                  {ranks?.topPercent != null && (
+                    <span className="text-xs font-normal opacity-80">{formatTopPercent(ranks.topPercent)}</span>
+                  )}
+                </div>
+                <div className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-muted/50 text-foreground border border-border font-semibold">
+                  <Trophy className="w-3.5 h-3.5" />
+                  <span>#{ranks?.type ?? '–'} {nftType}</span>
+                </div>
+                <div className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-accent/15 text-accent border border-accent/20 font-semibold">
+                  <Tag className="w-3.5 h-3.5" />
+                  {listingLoading ? (
+                    <span className="text-muted-foreground">…</span>
+                  ) : listingPrice > 0 ? (
+                    <span>{listingPrice.toFixed(4)} ETH</span>
+                  ) : (
+                    <span className="text-muted-foreground">Not listed</span>
+                  )}
+                </div>
+              </div>
+
+              {listingPrice > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  ~{formatEth(listingPrice)} · {formatNumber(Math.round(entry.points / toFiat(listingPrice)))} pts/{symbol}1
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-4 lg:gap-6 min-w-0">
+            {/* Points History */}
+            <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card p-4">
+              <h3 className="font-bold text-base mb-3">Points over time</h3>
+              {chartData.length < 2 ? (
+                <p className="text-sm text-muted-foreground py-8 text-center">
+                  Not enough refresh history yet.
+                </p>
+              ) : (
+                <ChartContainer config={chartConfig} className="h-[240px] w-full aspect-auto">
+                  <AreaChart data={chartData} margin={{ left: 4, right: 8 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+                    <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={(v: number) => formatNumber(v)} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Area
+                      dataKey="points"
+                      type="monotone"
+                      stroke="var(--color-points)"
+                      fill="var(--color-points)"
+                      fillOpacity={0.2}
+                    />
+                  </AreaChart>
+                </ChartContainer>
+              )}
+            </div>
+
+            {/* Sales */}
+            <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card overflow-hidden">
+              <div className="p-4 border-b border-border flex items-center gap-2">
+                <History className="w-4 h-4 text-primary" />
+                <h3 className="font-bold text-base">Sales</h3>
+              </div>
+              {sales.length === 0 ? (
+                <p className="p-6 text-center text-sm text-muted-foreground">No sales found for this seed.</p>
+              ) : (
+                <div className="divide-y divide-border">
+                  {sales.map((sale) => (
+                    <div key={sale.transaction} className="flex items-center justify-between p-3 text-sm">
+                      <span className="text-muted-foreground">
+                        {new Date(sale.timestamp * 1000).toLocaleDateString()}
+                      </span>
+                      <span className="font-bold text-primary">
+                        {sale.priceEth.toFixed(4)} {sale.currency}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </PageLayout>
+  );
+}
@@ -0,0 +1,243 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Star, Loader2, RefreshCw, Tag } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { PageLayout } from '@/components/Layout';
+import { WatchlistButton } from '@/components/WatchlistButton';
+import { supabase } from '@/integrations/supabase/client';
+import { useFiatCurrency } from '@/hooks/useFiatCurrency';
+import { WatchlistItem, useWatchlist } from '@/hooks/useWatchlist';
+import {
+  COLLECTION_SLUGS,
+  NFTType,
+  fetchNFTListings,
+  SeedRank,
+  fetchStakingPointsBatch,
+  formatNumber,
+  getPriceValue,
+  getSeedPath,
+} from '@/utils/api';
+import { RANK_COLUMNS, rankTitle, toSeedRank } from '@/utils/ranks';
+
+interface WatchedSeed {
+  nftType: NFTType;
+  tokenId: string;
+  imageUrl: string | null;
+  points: number | null;
+  rank: SeedRank | null;
+  priceEth: number | null;
+  lastSale: { priceEth: number; currency: string; soldAt: string } | null;
+}
+
+async function loadCollection(nftType: NFTType, tokenIds: string[], ethPriceUSD: number): Promise<WatchedSeed[]> {
+  const slug = COLLECTION_SLUGS[nftType];
+
+  const [{ data: entries }, { data: sales }, listings, livePoints] = await Promise.all([
+    supabase
+      .from('leaderboard_entries')
+      .select(`token_id, points, image_url, ${RANK_COLUMNS}`)
+      .eq('collection_slug', slug)
+      .in('token_id', tokenIds),
+    supabase
+      .from('sales')
+      .select('token_id, price_eth, currency, sold_at')
+      .eq('collection_slug', slug)
+      .in('token_id', tokenIds)
+      .order('sold_at', { ascending: false }),
+    fetchNFTListings(nftType, ethPriceUSD).catch((err) => {
+      console.warn(`Failed to load ${nftType} listings for watchlist:`, err);
+      return [];
+    }),
+    fetchStakingPointsBatch(nftType, tokenIds),
+  ]);
+
+  return tokenIds.map((tokenId): WatchedSeed => {
+    const entry = entries?.find(e => e.token_id === tokenId);
+    const listing = listings.find(l => l.tokenId === tokenId);
+    const sale = sales?.find(s => s.token_id === tokenId);
+
+    const points = livePoints.get(tokenId) || (entry ? Number(entry.points) : null);
+
+    return {
+      nftType,
+      tokenId,
+      imageUrl: entry?.image_url ?? listing?.cachedImageUrl ?? null,
+      points,
+      rank: entry ? toSeedRank(entry) : null,
+      priceEth: listing ? getPriceValue(listing, ethPriceUSD) : null,
+      lastSale: sale
+        ? { priceEth: Number(sale.price_eth), currency: sale.currency, soldAt: sale.sold_at }
+        : null,
+    };
+  });
+}
+
+async function loadWatchedSeeds(watchlist: WatchlistItem[], ethPriceUSD: number): Promise<WatchedSeed[]> {
+  const types = (Object.keys(COLLECTION_SLUGS) as NFTType[]).filter(type =>
+    watchlist.some(item => item.nftType === type)
+  );
+
+  const results = await Promise.all(types.map(type =>
+    loadCollection(type, watchlist.filter(item => item.nftType === type).map(item => item.tokenId), ethPriceUSD)
+  ));
+
+  // Keep the order the seeds were added in
+  const byKey = new Map(results.flat().map(seed => [`${seed.nftType}_${seed.tokenId}`, seed]));
+  return watchlist
+    .map(item => byKey.get(`${item.nftType}_${item.tokenId}`))
+    .filter((seed): seed is WatchedSeed => !!seed);
+}
+
+export default function Watchlist() {
+  const { watchlist, isWatched } = useWatchlist();
+  const [seeds, setSeeds] = useState<WatchedSeed[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { formatEth, ethPriceUSD } = useFiatCurrency();
+
+  const watchKey = watchlist.map(item => `${item.nftType}_${item.tokenId}`).join(',');
+
+  const refresh = async () => {
+    if (watchlist.length === 0) {
+      setSeeds([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setSeeds(await loadWatchedSeeds(watchlist, ethPriceUSD));
+    } catch (err) {
+      console.error('Error loading watchlist:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Removing a seed only hides it; adding one needs a reload
+  const visibleSeeds = seeds.filter(seed => isWatched(seed.nftType, seed.tokenId));
+  const hasMissing = watchlist.some(item =>
+    !seeds.some(seed => seed.nftType === item.nftType && seed.tokenId === item.tokenId)
+  );
+
+  useEffect(() => {
+    if (hasMissing || watchlist.length === 0) refresh();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [watchKey]);
+
+  return (
+    <PageLayout>
+      <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card p-4 md:p-6 mb-6 animate-slide-up stagger-1 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Star className="w-5 h-5 text-yellow-500 fill-yellow-500" />
+          <h2 className="font-bold text-lg">Watchlist</h2>
+          <span className="text-sm text-muted-foreground">({watchlist.length})</span>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={refresh}
+          disabled={loading || watchlist.length === 0}
+          className="hover:scale-105 transition-transform"
+        >
+          <RefreshCw className={`w-4 h-4 mr-1 md:mr-2 ${loading ? 'animate-spin' : ''}`} />
+          <span className="hidden sm:inline">Refresh</span>
+        </Button>
+      </div>
+
+      {watchlist.length === 0 && (
+        <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card p-8 md:p-12 text-center animate-fade-in">
+          <Star className="w-10 h-10 md:w-12 md:h-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-base md:text-lg text-muted-foreground">
+            No seeds watched yet. Tap the star on a seed to add it here.
+          </p>
+        </div>
+      )}
+
+      {loading && visibleSeeds.length === 0 && watchlist.length > 0 && (
+        <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card p-8 md:p-12 text-center animate-fade-in">
+          <Loader2 className="w-10 h-10 md:w-12 md:h-12 text-primary animate-spin mx-auto mb-4" />
+          <p className="text-base md:text-lg text-muted-foreground">Loading watchlist...</p>
+        </div>
+      )}
+
+      {visibleSeeds.length > 0 && (
+        <div className="bg-card/80 backdrop-blur-md rounded-xl shadow-card overflow-hidden animate-slide-up stagger-2">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="px-2 md:px-4 py-2 md:py-3 text-left text-xs md:text-sm font-semibold text-foreground">Seed</th>
+                  <th className="px-2 md:px-4 py-2 md:py-3 text-right text-xs md:text-sm font-semibold text-foreground">Price</th>
+                  <th className="px-2 md:px-4 py-2 md:py-3 text-right text-xs md:text-sm font-semibold text-foreground">Points</th>
+                  <th className="px-2 md:px-4 py-2 md:py-3 text-right text-xs md:text-sm font-semibold text-foreground hidden sm:table-cell">Rank</th>
+                  <th className="px-2 md:px-4 py-2 md:py-3 text-right text-xs md:text-sm font-semibold text-foreground hidden md:table-cell">Last Sale</th>
+                  <th className="px-2 md:px-4 py-2 md:py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {visibleSeeds.map((seed) => (
+                  <tr key={`${seed.nftType}-${seed.tokenId}`} className="transition-colors hover:bg-muted/30">
+                    <td className="px-2 md:px-4 py-2 md:py-3">
+                      <Link to={getSeedPath(seed.nftType, seed.tokenId)} className="flex items-center gap-2 group">
+                        {seed.imageUrl ? (
+                          <img src={seed.imageUrl} alt={`Seed #${seed.tokenId}`} className="w-8 h-8 md:w-10 md:h-10 rounded-lg object-cover" />
+                        ) : (
+                          <div className="w-8 h-8 md:w-10 md:h-10 rounded-lg bg-muted" />
+                        )}
+                        <div className="flex flex-col">
+                          <span className="font-medium text-xs md:text-sm group-hover:text-primary group-hover:underline">#{seed.tokenId}</span>
+                          <Badge
+                            variant="secondary"
+                            className={`text-[10px] w-fit ${seed.nftType === 'Mythic' ? 'bg-purple-500/20 text-purple-600' : 'bg-amber-500/20 text-amber-600'}`}
+                          >
+                            {seed.nftType}
+                          </Badge>
+                        </div>
+                      </Link>
+                    </td>
+                    <td className="px-2 md:px-4 py-2 md:py-3 text-right">
+                      {seed.priceEth ? (
+                        <div className="flex flex-col items-end">
+                          <span className="font-bold text-primary text-xs md:text-sm flex items-center gap-1">
+                            <Tag className="w-3 h-3" />
+                            {seed.priceEth.toFixed(4)} ETH
+                          </span>
+                          <span className="text-[10px] text-muted-foreground">~{formatEth(seed.priceEth)}</span>
+                        </div>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">Not listed</span>
+                      )}
+                    </td>
+                    <td className="px-2 md:px-4 py-2 md:py-3 text-right font-semibold text-xs md:text-sm">
+                      {seed.points !== null ? formatNumber(seed.points) : '–'}
+                    </td>
+                    <td className="px-2 md:px-4 py-2 md:py-3 text-right text-xs md:text-sm hidden sm:table-cell">
+                      {seed.rank?.global != null ? (
+                        <span title={rankTitle(seed.nftType, seed.rank)}>#{seed.rank.global}</span>
+                      ) : '–'}
+                    </td>
+                    <td className="px-2 md:px-4 py-2 md:py-3 text-right text-xs hidden md:table-cell">
+                      {seed.lastSale ? (
+                        <div className="flex flex-col items-end">
+                          <span className="font-semibold">{seed.lastSale.priceEth.toFixed(4)} {seed.lastSale.currency}</span>
+                          <span className="text-[10px] text-muted-foreground">
+                            {new Date(seed.lastSale.soldAt).toLocaleDateString()}
+                          </span>
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">–</span>
+                      )}
+                    </td>
+                    <td className="px-2 md:px-4 py-2 md:py-3 text-center">
+                      <WatchlistButton nftType={seed.nftType} tokenId={seed.tokenId} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </PageLayout>
+  );
+}
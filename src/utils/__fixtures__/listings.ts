@@ -0,0 +1,68 @@
+import { NFTWithMetadata } from '@/utils/api';
+
+export const MYTHIC_CONTRACT = '0x00000000000000000000000000000000000a11ce';
+
+interface ListingFixture {
+  tokenId?: string;
+  // Raw `price.current.value`; omit for listings without a price
+  value?: string;
+  currency?: string;
+  decimals?: number;
+  contract?: string;
+  imageUrl?: string;
+  stakingPoints?: number;
+}
+
+/**
+ * Build a listing shaped like an OpenSea `listings/collection/{slug}/all` entry
+ */
+export function makeListing({
+  tokenId = '1',
+  value,
+  currency = 'ETH',
+  decimals,
+  contract = MYTHIC_CONTRACT,
+  imageUrl,
+  stakingPoints,
+}: ListingFixture = {}): NFTWithMetadata {
+  return {
+    ...(value !== undefined && { price: { current: { value, currency, ...(decimals !== undefined && { decimals }) } } }),
+    protocol_data: {
+      parameters: {
+        offer: [{ identifierOrCriteria: tokenId, token: contract, ...(imageUrl && { imageUrl }) }],
+      },
+    },
+    ...(stakingPoints !== undefined && { stakingPoints }),
+  };
+}
+
+/** 1 ETH in wei */
+export const ONE_ETH = '1000000000000000000';
+
+// Same seed listed twice at different prices, plus a second seed
+export const DUPLICATE_LISTINGS = [
+  makeListing({ tokenId: '101', value: '80000000000000000' }), // 0.08
+  makeListing({ tokenId: '101', value: '50000000000000000' }), // 0.05
+  makeListing({ tokenId: '102', value: '70000000000000000' }), // 0.07
+  makeListing({ tokenId: '101', value: '60000000000000000' }), // 0.06
+];
+
+// Wrapped ETH, priced 1:1 with ETH
+export const WETH_LISTING = makeListing({ tokenId: '201', value: '50000000000000000', currency: 'WETH' });
+
+// 125 USDC (6 decimals)
+export const USDC_LISTING = makeListing({ tokenId: '202', value: '125000000', currency: 'USDC', decimals: 6 });
+
+// A token with no known USD rate
+export const UNKNOWN_CURRENCY_LISTING = makeListing({ tokenId: '203', value: ONE_ETH, currency: 'FOO' });
+
+// Larger than Number.MAX_SAFE_INTEGER in wei
+export const HUGE_WEI_LISTING = makeListing({ tokenId: '301', value: '123456789000000000000000' });
+
+// No price.current at all
+export const UNPRICED_LISTING: NFTWithMetadata = {
+  price: {},
+  protocol_data: {
+    parameters: { offer: [{ identifierOrCriteria: '401', token: MYTHIC_CONTRACT }] },
+  },
+};
@@ -0,0 +1,57 @@
+import {
+  NFTType,
+  NFTWithMetadata,
+  calculatePointsPerPrice,
+  calculatePointsPerUSD,
+  getPriceValue,
+} from '@/utils/api';
+
+/**
+ * A price alert rule. Unset conditions are ignored; set ones must all match.
+ */
+export interface AlertRule {
+  id: string;
+  nftType: NFTType;
+  minPoints?: number;
+  maxPriceEth?: number;
+  minPointsPerEth?: number;
+  minPointsPerUSD?: number;
+  enabled: boolean;
+  createdAt: number;
+}
+
+export type AlertConditions = Pick<AlertRule, 'minPoints' | 'maxPriceEth' | 'minPointsPerEth' | 'minPointsPerUSD'>;
+
+export function hasConditions(conditions: AlertConditions): boolean {
+  return Object.values(conditions).some(value => value !== undefined);
+}
+
+/**
+ * Check a listing (with staking points loaded) against a rule at an ETH/USD rate
+ */
+export function matchesRule(rule: AlertRule, listing: NFTWithMetadata, ethPriceUSD: number): boolean {
+  if (listing.nftType !== rule.nftType) return false;
+
+  const price = getPriceValue(listing, ethPriceUSD);
+  if (price <= 0) return false;
+
+  const points = listing.stakingPoints || 0;
+  if (rule.minPoints !== undefined && points < rule.minPoints) return false;
+  if (rule.maxPriceEth !== undefined && price > rule.maxPriceEth) return false;
+  if (rule.minPointsPerEth !== undefined && calculatePointsPerPrice(listing, ethPriceUSD) < rule.minPointsPerEth) return false;
+  if (rule.minPointsPerUSD !== undefined && calculatePointsPerUSD(listing, ethPriceUSD) < rule.minPointsPerUSD) return false;
+
+  return true;
+}
+
+/**
+ * Human readable summary, e.g. "Mythic, ≥5K points, ≤0.05 ETH"
+ */
+export function describeRule(rule: AlertRule): string {
+  const parts: string[] = [rule.nftType];
+  if (rule.minPoints !== undefined) parts.push(`≥${rule.minPoints.toLocaleString()} points`);
+  if (rule.maxPriceEth !== undefined) parts.push(`≤${rule.maxPriceEth} ETH`);
+  if (rule.minPointsPerEth !== undefined) parts.push(`≥${rule.minPointsPerEth.toLocaleString()} pts/ETH`);
+  if (rule.minPointsPerUSD !== undefined) parts.push(`≥${rule.minPointsPerUSD} pts/$`);
+  return parts.join(', ');
+}
@@ -0,0 +1,329 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  DUPLICATE_LISTINGS,
+  HUGE_WEI_LISTING,
+  ONE_ETH,
+  UNKNOWN_CURRENCY_LISTING,
+  UNPRICED_LISTING,
+  USDC_LISTING,
+  WETH_LISTING,
+  makeListing,
+} from './__fixtures__/listings';
+import {
+  calculatePointsPerPrice,
+  calculatePointsPerUSD,
+  fetchNFTListings,
+  fetchStakingPoints,
+  fetchStakingPointsBatch,
+  formatNumber,
+  formatPrice,
+  getImageUrl,
+  getPriceValue,
+  setCurrencyRates,
+  sortListings,
+} from './api';
+
+const { invoke, from } = vi.hoisted(() => ({ invoke: vi.fn(), from: vi.fn() }));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { functions: { invoke }, from },
+}));
+
+// Rows returned by the leaderboard_entries select/eq/in chain
+function mockStoredPoints(rows: { token_id: string; points: number; points_updated_at: string }[]) {
+  const query = { select: () => query, eq: () => query, in: () => Promise.resolve({ data: rows, error: null }) };
+  from.mockReturnValue(query);
+}
+
+// ETH/USD passed to price conversions
+const ETH_USD = 2500;
+
+beforeEach(() => {
+  invoke.mockReset();
+  from.mockReset();
+});
+
+describe('getPriceValue', () => {
+  it('converts wei to ETH', () => {
+    expect(getPriceValue(makeListing({ value: '50000000000000000' }), ETH_USD)).toBeCloseTo(0.05);
+  });
+
+  it('returns 0 when price.current is missing', () => {
+    expect(getPriceValue(UNPRICED_LISTING, ETH_USD)).toBe(0);
+    expect(getPriceValue(makeListing(), ETH_USD)).toBe(0);
+  });
+
+  it('handles wei values beyond Number.MAX_SAFE_INTEGER', () => {
+    expect(getPriceValue(HUGE_WEI_LISTING, ETH_USD)).toBeCloseTo(123456.789);
+  });
+
+  it('treats WETH as 1:1 with ETH', () => {
+    expect(getPriceValue(WETH_LISTING, ETH_USD)).toBeCloseTo(0.05);
+  });
+
+  it('converts stablecoins through the ETH price using their decimals', () => {
+    // 125 USDC at $2500/ETH
+    expect(getPriceValue(USDC_LISTING, ETH_USD)).toBeCloseTo(0.05);
+    expect(getPriceValue(USDC_LISTING, 1250)).toBeCloseTo(0.1);
+  });
+
+  it('returns 0 for currencies without a known rate', () => {
+    expect(getPriceValue(makeListing({ tokenId: '9', value: ONE_ETH, currency: 'NOPE' }), ETH_USD)).toBe(0);
+  });
+
+  it('uses rates merged with setCurrencyRates', () => {
+    setCurrencyRates({ foo: 5 });
+    // 1 FOO at $5 with ETH at $2500
+    expect(getPriceValue(UNKNOWN_CURRENCY_LISTING, ETH_USD)).toBeCloseTo(0.002);
+  });
+});
+
+describe('formatPrice', () => {
+  it('formats to four decimals with the currency', () => {
+    expect(formatPrice(makeListing({ value: ONE_ETH }), ETH_USD)).toBe('1.0000 ETH');
+    expect(formatPrice(WETH_LISTING, ETH_USD)).toBe('0.0500 WETH');
+  });
+
+  it('shows the ETH equivalent for other currencies', () => {
+    expect(formatPrice(USDC_LISTING, ETH_USD)).toBe('125.00 USDC (≈0.0500 ETH)');
+    expect(formatPrice(makeListing({ tokenId: '9', value: ONE_ETH, currency: 'NOPE' }), ETH_USD)).toBe('1.00 NOPE');
+  });
+
+  it('falls back when the price is missing', () => {
+    expect(formatPrice(UNPRICED_LISTING, ETH_USD)).toBe('Price not available');
+  });
+
+  it('formats huge wei values', () => {
+    expect(formatPrice(HUGE_WEI_LISTING, ETH_USD)).toBe('123456.7890 ETH');
+  });
+});
+
+describe('formatNumber', () => {
+  it.each([
+    [0, '0'],
+    [999, '999'],
+    [1_000, '1K'],
+    [1_500, '1.5K'],
+    [50_000, '50K'],
+    [1_000_000, '1M'],
+    [2_500_000, '2.5M'],
+  ])('formats %d as %s', (n, expected) => {
+    expect(formatNumber(n)).toBe(expected);
+  });
+});
+
+describe('calculatePointsPerPrice', () => {
+  it('divides points by the ETH price', () => {
+    expect(calculatePointsPerPrice(makeListing({ value: '500000000000000000', stakingPoints: 1000 }), ETH_USD)).toBe(2000);
+  });
+
+  it('returns 0 for zero or missing points', () => {
+    expect(calculatePointsPerPrice(makeListing({ value: ONE_ETH, stakingPoints: 0 }), ETH_USD)).toBe(0);
+    expect(calculatePointsPerPrice(makeListing({ value: ONE_ETH }), ETH_USD)).toBe(0);
+  });
+
+  it('returns 0 when the listing has no price', () => {
+    expect(calculatePointsPerPrice({ ...UNPRICED_LISTING, stakingPoints: 1000 }, ETH_USD)).toBe(0);
+  });
+});
+
+describe('calculatePointsPerUSD', () => {
+  it('uses the current ETH price', () => {
+    expect(calculatePointsPerUSD(makeListing({ value: '500000000000000000', stakingPoints: 1000 }), 2000)).toBe(1);
+  });
+
+  it('returns 0 for zero points', () => {
+    expect(calculatePointsPerUSD(makeListing({ value: ONE_ETH, stakingPoints: 0 }), ETH_USD)).toBe(0);
+  });
+});
+
+describe('sortListings', () => {
+  const cheap = makeListing({ tokenId: '1', value: '10000000000000000', stakingPoints: 100 }); // 10K pts/ETH
+  const mid = makeListing({ tokenId: '2', value: '50000000000000000', stakingPoints: 5000 }); // 100K pts/ETH
+  const pricey = makeListing({ tokenId: '3', value: ONE_ETH, stakingPoints: 20000 }); // 20K pts/ETH
+  const noPoints = makeListing({ tokenId: '4', value: '20000000000000000', stakingPoints: 0 });
+  const listings = [pricey, noPoints, cheap, mid];
+  const ids = (sorted: typeof listings) => sorted.map(l => l.protocol_data?.parameters?.offer?.[0]?.identifierOrCriteria);
+
+  it('sorts by lowest price', () => {
+    expect(ids(sortListings(listings, 'lowestprice', ETH_USD))).toEqual(['1', '4', '2', '3']);
+  });
+
+  it('sorts by highest price', () => {
+    expect(ids(sortListings(listings, 'highestprice', ETH_USD))).toEqual(['3', '2', '4', '1']);
+  });
+
+  it('sorts by best deal with zero-point listings last', () => {
+    expect(ids(sortListings(listings, 'bestdeal', ETH_USD))).toEqual(['2', '3', '1', '4']);
+  });
+
+  it('sorts by price relative to fair value with unmodelled listings last', () => {
+    const withFair = (listing: typeof cheap, fair: number) => ({ ...listing, fairValue: { fair, low: fair, high: fair } });
+    const modelled = [withFair(pricey, 2), noPoints, withFair(cheap, 0.005), withFair(mid, 0.2)];
+
+    expect(ids(sortListings(modelled, 'fairvalue', ETH_USD))).toEqual(['2', '3', '1', '4']);
+  });
+
+  it('sorts by projected points per price with unprojected listings last', () => {
+    const withProjection = (listing: typeof cheap, projected30d: number) => ({ ...listing, projection: { pointsPerDay: 1, projected30d } });
+    const projected = [withProjection(pricey, 50000), noPoints, withProjection(cheap, 300), withProjection(mid, 5500)];
+
+    expect(ids(sortListings(projected, 'projected', ETH_USD))).toEqual(['2', '3', '1', '4']);
+  });
+
+  it('does not mutate the input', () => {
+    sortListings(listings, 'lowestprice', ETH_USD);
+    expect(ids(listings)).toEqual(['3', '4', '1', '2']);
+  });
+});
+
+describe('fetchNFTListings', () => {
+  it('keeps only the lowest priced listing per token', async () => {
+    invoke.mockResolvedValue({ data: { listings: structuredClone(DUPLICATE_LISTINGS) }, error: null });
+
+    const result = await fetchNFTListings('Mythic', ETH_USD);
+
+    expect(invoke).toHaveBeenCalledWith('opensea-listings', { body: { collectionSlug: 'mythicseed' } });
+    expect(result).toHaveLength(2);
+    const seed101 = result.find(l => l.tokenId === '101');
+    expect(getPriceValue(seed101!, ETH_USD)).toBeCloseTo(0.05);
+    expect(result.every(l => l.nftType === 'Mythic')).toBe(true);
+  });
+
+  it('fetches rates for currencies it cannot price yet', async () => {
+    const ape = makeListing({ tokenId: '8', value: ONE_ETH, currency: 'APE' });
+    invoke.mockImplementation(async (fn: string) => fn === 'eth-price'
+      ? { data: { price: 2500, rates: { APE: 1.25 } }, error: null }
+      : { data: { listings: [ape, structuredClone(WETH_LISTING)] }, error: null });
+
+    const result = await fetchNFTListings('Mythic', ETH_USD);
+
+    expect(invoke).toHaveBeenCalledWith('eth-price', { body: { symbols: ['APE'] } });
+    expect(getPriceValue(result.find(l => l.tokenId === '8')!, ETH_USD)).toBeCloseTo(0.0005);
+  });
+
+  it('drops listings without a token id', async () => {
+    const noToken = { price: { current: { value: ONE_ETH, currency: 'ETH' } } };
+    invoke.mockResolvedValue({ data: { listings: [noToken, makeListing({ tokenId: '7', value: ONE_ETH })] }, error: null });
+
+    const result = await fetchNFTListings('Ancient', ETH_USD);
+
+    expect(result.map(l => l.tokenId)).toEqual(['7']);
+  });
+
+  it('throws when the edge function fails', async () => {
+    invoke.mockResolvedValue({ data: null, error: { message: 'boom' } });
+
+    await expect(fetchNFTListings('Mythic', ETH_USD)).rejects.toThrow('boom');
+  });
+});
+
+describe('fetchStakingPoints', () => {
+  it('caches points per type and token', async () => {
+    invoke.mockResolvedValue({ data: { points: 4200 }, error: null });
+
+    expect(await fetchStakingPoints('1001', 'Mythic')).toBe(4200);
+    expect(await fetchStakingPoints('1001', 'Mythic')).toBe(4200);
+    expect(invoke).toHaveBeenCalledTimes(1);
+    expect(invoke).toHaveBeenCalledWith('staking-points', { body: { tokenId: '1001', nftType: 'Mythic' } });
+
+    // Same token id in another collection is a separate entry
+    await fetchStakingPoints('1001', 'Ancient');
+    expect(invoke).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns and caches 0 on errors', async () => {
+    invoke.mockResolvedValue({ data: null, error: { message: 'down' } });
+
+    expect(await fetchStakingPoints('1002', 'Mythic')).toBe(0);
+    expect(await fetchStakingPoints('1002', 'Mythic')).toBe(0);
+    expect(invoke).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns 0 when the call throws', async () => {
+    invoke.mockRejectedValue(new Error('network'));
+
+    expect(await fetchStakingPoints('1003', 'Mythic')).toBe(0);
+  });
+});
+
+describe('fetchStakingPointsBatch', () => {
+  const NOW = Date.parse('2026-01-31T12:00:00Z');
+  const HOUR = 60 * 60 * 1000;
+  const at = (ms: number) => new Date(ms).toISOString();
+
+  it('uses fresh stored points and fetches only stale, zero or missing tokens live', async () => {
+    mockStoredPoints([
+      { token_id: '3001', points: 500, points_updated_at: at(NOW - HOUR) },
+      { token_id: '3002', points: 700, points_updated_at: at(NOW - 10 * HOUR) },
+      { token_id: '3003', points: 0, points_updated_at: at(NOW - HOUR) },
+    ]);
+    invoke.mockResolvedValue({ data: { pointsById: { '3002': 750, '3003': 20, '3004': 90 } }, error: null });
+
+    const points = await fetchStakingPointsBatch('Mythic', ['3001', '3002', '3003', '3004'], { ttlMs: 6 * HOUR, now: NOW });
+
+    expect(Object.fromEntries(points)).toEqual({ '3001': 500, '3002': 750, '3003': 20, '3004': 90 });
+    expect(invoke).toHaveBeenCalledTimes(1);
+    expect(invoke).toHaveBeenCalledWith('staking-points-batch', {
+      body: { tokenIds: ['3002', '3003', '3004'], nftType: 'Mythic' },
+    });
+
+    // Results are kept in memory for the session
+    expect(await fetchStakingPoints('3004', 'Mythic')).toBe(90);
+    expect(invoke).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps stale stored points when the live fetch fails', async () => {
+    mockStoredPoints([{ token_id: '3101', points: 400, points_updated_at: at(NOW - 10 * HOUR) }]);
+    invoke.mockResolvedValue({ data: null, error: { message: 'down' } });
+
+    const points = await fetchStakingPointsBatch('Mythic', ['3101', '3102'], { ttlMs: 6 * HOUR, now: NOW });
+
+    expect(Object.fromEntries(points)).toEqual({ '3101': 400, '3102': 0 });
+  });
+
+  it('splits live fetches into batches of 50', async () => {
+    mockStoredPoints([]);
+    invoke.mockResolvedValue({ data: { pointsById: {} }, error: null });
+
+    const ids = Array.from({ length: 120 }, (_, i) => String(4000 + i));
+    await fetchStakingPointsBatch('Ancient', ids, { now: NOW });
+
+    expect(invoke).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('getImageUrl', () => {
+  it('uses the image embedded in the listing without a request', async () => {
+    const url = await getImageUrl(makeListing({ tokenId: '2001', imageUrl: 'https://img/2001.png' }));
+
+    expect(url).toBe('https://img/2001.png');
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it('returns a placeholder when the listing has no contract', async () => {
+    const url = await getImageUrl(makeListing({ tokenId: '2002', contract: '' }));
+
+    expect(url).toContain('placeholder');
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it('deduplicates concurrent requests and caches the result', async () => {
+    invoke.mockResolvedValue({ data: { imageUrl: 'https://img/2003.png' }, error: null });
+    const listing = makeListing({ tokenId: '2003' });
+
+    const [a, b] = await Promise.all([getImageUrl(listing), getImageUrl(listing)]);
+    const c = await getImageUrl(listing);
+
+    expect([a, b, c]).toEqual(['https://img/2003.png', 'https://img/2003.png', 'https://img/2003.png']);
+    expect(invoke).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to a placeholder when the lookup fails', async () => {
+    invoke.mockResolvedValue({ data: { imageUrl: null }, error: null });
+
+    const url = await getImageUrl(makeListing({ tokenId: '2004' }));
+
+    expect(url).toContain('NFT%20%232004');
+  });
+});
@@ -8,14 +8,23 @@ export const COLLECTION_SLUGS = {
 
 export type NFTType = keyof typeof COLLECTION_SLUGS;
 
+// OpenSea site used for item links; override to point at a mock or testnet
+const OPENSEA_WEB_URL = (import.meta.env.VITE_OPENSEA_WEB_URL || 'https://opensea.io').replace(/\/$/, '');
+
+// Points stored in leaderboard_entries older than this are fetched live
+export const POINTS_CACHE_TTL_MS = (Number(import.meta.env.VITE_POINTS_CACHE_TTL_MINUTES) || 360) * 60 * 1000;
+
 // Types for API responses
 export interface OpenSeaListing {
   price?: {
     current?: {
       value: string;
       currency: string;
+      decimals?: number;
     };
   };
+  // Unix seconds the listing started, added by opensea-listings
+  start_time?: number | null;
   protocol_data?: {
     parameters?: {
       offer?: Array<{
@@ -27,11 +36,41 @@ export interface OpenSeaListing {
   };
 }
 
+/**
+ * Model fair value in ETH with its confidence band (see utils/fairValue)
+ */
+export interface FairValueEstimate {
+  fair: number;
+  low: number;
+  high: number;
+}
+
+/**
+ * Competition ranks stored on leaderboard_entries (see utils/ranks); null when unranked
+ */
+export interface SeedRank {
+  global: number | null;
+  type: number | null;
+  // Share of ranked seeds with at least as many points, in percent
+  topPercent: number | null;
+}
+
+/**
+ * Points accrual from the stored points history (see utils/projections)
+ */
+export interface PointsProjection {
+  pointsPerDay: number;
+  projected30d: number;
+}
+
 export interface NFTWithMetadata extends OpenSeaListing {
   tokenId?: string;
   nftType?: NFTType;
   stakingPoints?: number;
   cachedImageUrl?: string;
+  fairValue?: FairValueEstimate | null;
+  rank?: SeedRank | null;
+  projection?: PointsProjection | null;
 }
 
 // Caches
@@ -42,7 +81,7 @@ const pendingImageRequests = new Map<string, Promise<string>>();
 /**
  * Remove duplicate NFTs and keep only the lowest price for each tokenId
  */
-function removeDuplicateNFTs(listings: NFTWithMetadata[]): NFTWithMetadata[] {
+function removeDuplicateNFTs(listings: NFTWithMetadata[], ethPriceUSD: number): NFTWithMetadata[] {
   const nftMap = new Map<string, NFTWithMetadata>();
   const duplicates: { tokenId: string; oldPrice: number; newPrice: number }[] = [];
   
@@ -50,7 +89,7 @@ function removeDuplicateNFTs(listings: NFTWithMetadata[]): NFTWithMetadata[] {
     const tokenId = listing.tokenId;
     if (!tokenId) return;
     
-    const currentPrice = getPriceValue(listing);
+    const currentPrice = getPriceValue(listing, ethPriceUSD);
     const existing = nftMap.get(tokenId);
     
     if (!existing) {
@@ -58,7 +97,7 @@ function removeDuplicateNFTs(listings: NFTWithMetadata[]): NFTWithMetadata[] {
       nftMap.set(tokenId, listing);
     } else {
       // Found duplicate - compare prices and keep the lower one
-      const existingPrice = getPriceValue(existing);
+      const existingPrice = getPriceValue(existing, ethPriceUSD);
       if (currentPrice < existingPrice) {
         duplicates.push({ 
           tokenId, 
@@ -91,9 +130,10 @@ function removeDuplicateNFTs(listings: NFTWithMetadata[]): NFTWithMetadata[] {
 }
 
 /**
- * Fetch NFT listings from OpenSea via Edge Function
+ * Fetch NFT listings from OpenSea via Edge Function. ethPriceUSD prices
+ * stablecoin listings when picking the lowest of a token's duplicates.
  */
-export async function fetchNFTListings(nftType: NFTType): Promise<NFTWithMetadata[]> {
+export async function fetchNFTListings(nftType: NFTType, ethPriceUSD: number): Promise<NFTWithMetadata[]> {
   const collectionSlug = COLLECTION_SLUGS[nftType];
   
   try {
@@ -119,8 +159,11 @@ export async function fetchNFTListings(nftType: NFTType): Promise<NFTWithMetadat
       }
     });
     
+    // Non-ETH listings need a rate before prices can be compared
+    await ensureCurrencyRates(allListings);
+
     // Remove duplicates - keep only lowest price for each NFT
-    const uniqueListings = removeDuplicateNFTs(allListings);
+    const uniqueListings = removeDuplicateNFTs(allListings, ethPriceUSD);
     
     console.log(`Fetched ${allListings.length} total listings, ${uniqueListings.length} unique NFTs for ${nftType}`);
     return uniqueListings;
@@ -150,26 +193,39 @@ export function getNFTName(listing: OpenSeaListing): string {
 }
 
 /**
- * Format price in ETH
+ * Format price in the listing currency, with the ETH equivalent for other tokens
  */
-export function formatPrice(listing: OpenSeaListing): string {
+export function formatPrice(listing: OpenSeaListing, ethPriceUSD: number): string {
   try {
     if (!listing.price?.current?.value) return 'Price not available';
-    const value = parseFloat(listing.price.current.value) / 1e18;
-    const currency = listing.price.current.currency || 'ETH';
-    return `${value.toFixed(4)} ${currency}`;
+    const amount = getTokenAmount(listing);
+    const currency = getListingCurrency(listing);
+    if (isEthPegged(currency)) return `${amount.toFixed(4)} ${currency}`;
+
+    const value = getPriceValue(listing, ethPriceUSD);
+    return value > 0
+      ? `${amount.toFixed(2)} ${currency} (≈${value.toFixed(4)} ETH)`
+      : `${amount.toFixed(2)} ${currency}`;
   } catch {
     return 'Price not available';
   }
 }
 
 /**
- * Get numeric price value in ETH
+ * Get numeric price value in ETH, converted from the listing currency at
+ * ethPriceUSD. Returns 0 when the price is missing or the currency has no known rate.
  */
-export function getPriceValue(listing: OpenSeaListing): number {
+export function getPriceValue(listing: OpenSeaListing, ethPriceUSD: number): number {
   try {
-    if (!listing.price?.current?.value) return 0;
-    return parseFloat(listing.price.current.value) / 1e18;
+    const amount = getTokenAmount(listing);
+    if (amount === 0) return 0;
+
+    const currency = getListingCurrency(listing);
+    if (isEthPegged(currency)) return amount;
+
+    const usdRate = CURRENCIES[currency]?.usdRate;
+    if (!usdRate || !ethPriceUSD) return 0;
+    return (amount * usdRate) / ethPriceUSD;
   } catch {
     return 0;
   }
@@ -273,13 +329,180 @@ export async function fetchStakingPoints(tokenId: string, nftType: NFTType): Pro
   }
 }
 
-// ETH price in USD (can be updated dynamically)
-export let ETH_PRICE_USD = 2500;
+// staking-points-batch accepts at most this many tokens per call
+const POINTS_BATCH_SIZE = 50;
+// Keeps the token id filter of the stored points query within URL limits
+const STORED_POINTS_CHUNK = 200;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+/**
+ * Staking points for many tokens of one collection, keyed by token id.
+ * Points stored in leaderboard_entries within the TTL are used as is; stale,
+ * zero or missing tokens are fetched live through staking-points-batch, which
+ * writes the fresh values back. A stale value is kept if the live fetch fails.
+ */
+export async function fetchStakingPointsBatch(
+  nftType: NFTType,
+  tokenIds: string[],
+  { ttlMs = POINTS_CACHE_TTL_MS, now = Date.now() } = {}
+): Promise<Map<string, number>> {
+  const result = new Map<string, number>();
+  const uncached: string[] = [];
+
+  for (const tokenId of new Set(tokenIds)) {
+    const cached = pointsCache.get(`${nftType}_${tokenId}`);
+    if (cached !== undefined) result.set(tokenId, cached);
+    else uncached.push(tokenId);
+  }
+  if (uncached.length === 0) return result;
+
+  const stored = new Map<string, number>();
+  try {
+    const pages = await Promise.all(chunk(uncached, STORED_POINTS_CHUNK).map(ids =>
+      supabase
+        .from('leaderboard_entries')
+        .select('token_id, points, points_updated_at')
+        .eq('collection_slug', COLLECTION_SLUGS[nftType])
+        .in('token_id', ids)
+    ));
+
+    for (const { data, error } of pages) {
+      if (error) throw error;
+      for (const row of data || []) {
+        const points = Number(row.points);
+        stored.set(row.token_id, points);
+        // Zeros are usually failed lookups, so they are always retried
+        if (points > 0 && now - new Date(row.points_updated_at).getTime() <= ttlMs) {
+          result.set(row.token_id, points);
+          pointsCache.set(`${nftType}_${row.token_id}`, points);
+        }
+      }
+    }
+  } catch (error) {
+    console.warn('Error reading stored staking points:', error);
+  }
+
+  const stale = uncached.filter(tokenId => !result.has(tokenId));
+  if (stale.length === 0) return result;
+
+  const batches = await Promise.all(chunk(stale, POINTS_BATCH_SIZE).map(async (ids) => {
+    try {
+      const { data, error } = await supabase.functions.invoke('staking-points-batch', {
+        body: { tokenIds: ids, nftType },
+      });
+      if (error) throw error;
+      return (data?.pointsById || {}) as Record<string, number>;
+    } catch (error) {
+      console.warn(`Error fetching staking points for ${ids.length} ${nftType} tokens:`, error);
+      return {};
+    }
+  }));
+
+  const live: Record<string, number> = Object.assign({}, ...batches);
+  for (const tokenId of stale) {
+    if (typeof live[tokenId] === 'number') {
+      result.set(tokenId, live[tokenId]);
+      pointsCache.set(`${nftType}_${tokenId}`, live[tokenId]);
+    } else {
+      result.set(tokenId, stored.get(tokenId) ?? 0);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Payment tokens seen on OpenSea. USD rates are refreshed from the eth-price
+ * function; ETH-pegged tokens have none, ETH/USD is passed where needed.
+ */
+export interface CurrencyInfo {
+  decimals: number;
+  usdRate: number | null;
+}
+
+const CURRENCIES: Record<string, CurrencyInfo> = {
+  ETH: { decimals: 18, usdRate: null },
+  WETH: { decimals: 18, usdRate: null },
+  USDC: { decimals: 6, usdRate: 1 },
+  USDT: { decimals: 6, usdRate: 1 },
+  DAI: { decimals: 18, usdRate: 1 },
+};
+
+// Priced 1:1 with ETH regardless of rates
+export const ETH_PEGGED = ['ETH', 'WETH'];
+
+export function isEthPegged(currency: string): boolean {
+  return ETH_PEGGED.includes(currency.toUpperCase());
+}
 
-export function setEthPriceUSD(price: number) {
-  ETH_PRICE_USD = price;
+export function getCurrencyInfo(currency: string): CurrencyInfo | null {
+  return CURRENCIES[currency.toUpperCase()] ?? null;
 }
 
+/**
+ * Merge USD rates by symbol, e.g. { USDC: 1, APE: 1.2 }. ETH-pegged symbols are ignored.
+ */
+export function setCurrencyRates(rates: Record<string, number>) {
+  for (const [symbol, rate] of Object.entries(rates)) {
+    const key = symbol.toUpperCase();
+    if (isEthPegged(key)) continue;
+    if (CURRENCIES[key]) {
+      CURRENCIES[key].usdRate = rate;
+    } else {
+      CURRENCIES[key] = { decimals: 18, usdRate: rate };
+    }
+  }
+}
+
+function getListingCurrency(listing: OpenSeaListing): string {
+  return (listing.price?.current?.currency || 'ETH').toUpperCase();
+}
+
+/**
+ * Price in whole units of the listing currency
+ */
+function getTokenAmount(listing: OpenSeaListing): number {
+  const current = listing.price?.current;
+  if (!current?.value) return 0;
+  const decimals = current.decimals ?? CURRENCIES[getListingCurrency(listing)]?.decimals ?? 18;
+  return parseFloat(current.value) / Math.pow(10, decimals);
+}
+
+/**
+ * Fetch USD rates for currencies we can't price yet
+ */
+async function ensureCurrencyRates(listings: OpenSeaListing[]): Promise<void> {
+  const missing = Array.from(new Set(listings.map(getListingCurrency)))
+    .filter(currency => !isEthPegged(currency) && !CURRENCIES[currency]?.usdRate);
+  if (missing.length === 0) return;
+
+  try {
+    const { data, error } = await supabase.functions.invoke('eth-price', {
+      body: { symbols: missing },
+    });
+    if (!error && data?.rates) setCurrencyRates(data.rates);
+  } catch (error) {
+    console.warn('Failed to fetch currency rates:', error);
+  }
+}
+
+/**
+ * Time ranges shared by sales and price history views
+ */
+export type TimeRange = '24h' | '7d' | '30d' | 'all';
+
+export const TIME_RANGE_SECONDS: Record<TimeRange, number> = {
+  '24h': 24 * 60 * 60,
+  '7d': 7 * 24 * 60 * 60,
+  '30d': 30 * 24 * 60 * 60,
+  all: Number.POSITIVE_INFINITY,
+};
+
 /**
  * Format number with K/M suffix
  * 5000 → "5K", 50000 → "50K", 1500000 → "1.5M"
@@ -299,17 +522,16 @@ export function formatNumber(n: number): string {
 /**
  * Get price in USD
  */
-export function getPriceInUSD(listing: OpenSeaListing): number {
-  const ethPrice = getPriceValue(listing);
-  return ethPrice * ETH_PRICE_USD;
+export function getPriceInUSD(listing: OpenSeaListing, ethPriceUSD: number): number {
+  return getPriceValue(listing, ethPriceUSD) * ethPriceUSD;
 }
 
 /**
  * Calculate points per ETH ratio
  */
-export function calculatePointsPerPrice(listing: NFTWithMetadata): number {
+export function calculatePointsPerPrice(listing: NFTWithMetadata, ethPriceUSD: number): number {
   const points = listing.stakingPoints || 0;
-  const price = getPriceValue(listing);
+  const price = getPriceValue(listing, ethPriceUSD);
   if (price === 0 || points === 0) return 0;
   return points / price;
 }
@@ -317,9 +539,9 @@ export function calculatePointsPerPrice(listing: NFTWithMetadata): number {
 /**
  * Calculate points per USD ratio
  */
-export function calculatePointsPerUSD(listing: NFTWithMetadata): number {
+export function calculatePointsPerUSD(listing: NFTWithMetadata, ethPriceUSD: number): number {
   const points = listing.stakingPoints || 0;
-  const priceUSD = getPriceInUSD(listing);
+  const priceUSD = getPriceInUSD(listing, ethPriceUSD);
   if (priceUSD === 0 || points === 0) return 0;
   return points / priceUSD;
 }
@@ -332,31 +554,92 @@ export function getOpenSeaUrl(listing: OpenSeaListing): string | null {
   const contractAddress = listing.protocol_data?.parameters?.offer?.[0]?.token;
   
   if (tokenId && contractAddress) {
-    return `https://opensea.io/assets/ethereum/${contractAddress}/${tokenId}`;
+    return `${OPENSEA_WEB_URL}/assets/ethereum/${contractAddress}/${tokenId}`;
   }
   
   return null;
 }
 
+/**
+ * Get contract address from an OpenSea asset URL
+ * https://opensea.io/assets/ethereum/0xabc.../1234 → "0xabc..."
+ */
+export function getContractFromOpenSeaUrl(url: string | null): string | null {
+  const match = url?.match(/\/(0x[0-9a-fA-F]{40})\//);
+  return match ? match[1] : null;
+}
+
+/**
+ * Get in-app seed detail path
+ */
+export function getSeedPath(nftType: NFTType, tokenId: string): string {
+  return `/seed/${nftType.toLowerCase()}/${tokenId}`;
+}
+
+/**
+ * Parse NFT type from a route param ("mythic" → "Mythic")
+ */
+export function parseNFTType(value: string | undefined): NFTType | null {
+  const match = (Object.keys(COLLECTION_SLUGS) as NFTType[]).find(
+    type => type.toLowerCase() === value?.toLowerCase()
+  );
+  return match ?? null;
+}
+
 /**
  * Sort listings
  */
-export type SortType = 'lowestprice' | 'highestprice' | 'bestdeal';
+export const SORT_TYPES = ['lowestprice', 'highestprice', 'bestdeal', 'fairvalue', 'projected'] as const;
+
+export type SortType = typeof SORT_TYPES[number];
 
-export function sortListings(listings: NFTWithMetadata[], sortType: SortType): NFTWithMetadata[] {
+/**
+ * Price relative to fair value, the ordering of utils/fairValue getDiscountScore;
+ * listings without one sort last
+ */
+function getFairValueRatio(listing: NFTWithMetadata, ethPriceUSD: number): number {
+  const price = getPriceValue(listing, ethPriceUSD);
+  if (!listing.fairValue || price <= 0) return Number.POSITIVE_INFINITY;
+  return price / listing.fairValue.fair;
+}
+
+/**
+ * Projected 30-day points per ETH; listings without a projection sort last
+ */
+export function getProjectedPointsPerPrice(listing: NFTWithMetadata, ethPriceUSD: number): number {
+  const price = getPriceValue(listing, ethPriceUSD);
+  if (!listing.projection || price <= 0) return Number.NEGATIVE_INFINITY;
+  return listing.projection.projected30d / price;
+}
+
+export function sortListings(listings: NFTWithMetadata[], sortType: SortType, ethPriceUSD: number): NFTWithMetadata[] {
   const sorted = [...listings];
   
   switch (sortType) {
     case 'bestdeal':
       return sorted.sort((a, b) => {
-        const ratioA = calculatePointsPerPrice(a);
-        const ratioB = calculatePointsPerPrice(b);
+        const ratioA = calculatePointsPerPrice(a, ethPriceUSD);
+        const ratioB = calculatePointsPerPrice(b, ethPriceUSD);
         return ratioB - ratioA;
       });
+    case 'fairvalue':
+      return sorted.sort((a, b) => {
+        const ratioA = getFairValueRatio(a, ethPriceUSD);
+        const ratioB = getFairValueRatio(b, ethPriceUSD);
+        if (ratioA === ratioB) return 0;
+        return ratioA < ratioB ? -1 : 1;
+      });
+    case 'projected':
+      return sorted.sort((a, b) => {
+        const ratioA = getProjectedPointsPerPrice(a, ethPriceUSD);
+        const ratioB = getProjectedPointsPerPrice(b, ethPriceUSD);
+        if (ratioA === ratioB) return 0;
+        return ratioA > ratioB ? -1 : 1;
+      });
     case 'highestprice':
-      return sorted.sort((a, b) => getPriceValue(b) - getPriceValue(a));
+      return sorted.sort((a, b) => getPriceValue(b, ethPriceUSD) - getPriceValue(a, ethPriceUSD));
     case 'lowestprice':
-      return sorted.sort((a, b) => getPriceValue(a) - getPriceValue(b));
+      return sorted.sort((a, b) => getPriceValue(a, ethPriceUSD) - getPriceValue(b, ethPriceUSD));
     default:
       return sorted;
   }
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import { makeListing } from './__fixtures__/listings';
+import { fitFairValueModel, getDiscountScore, getFairValue, getFairValueDelta } from './fairValue';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { functions: { invoke: vi.fn() } },
+}));
+
+// price = 0.001 * points^0.5, with alternating ±10% noise
+const SAMPLES = [100, 400, 900, 1600, 2500, 3600, 4900, 6400, 8100, 10000].map((points, i) => ({
+  stakingPoints: points,
+  priceEth: 0.001 * Math.sqrt(points) * (i % 2 === 0 ? 1.1 : 0.9),
+}));
+
+describe('fitFairValueModel', () => {
+  it('recovers the power law exponent', () => {
+    const model = fitFairValueModel(SAMPLES)!;
+
+    expect(model.slope).toBeCloseTo(0.5, 1);
+    expect(model.sampleSize).toBe(10);
+  });
+
+  it('ignores unusable samples and needs enough sales', () => {
+    expect(fitFairValueModel(SAMPLES.slice(0, 5))).toBeNull();
+    expect(fitFairValueModel([...SAMPLES.slice(0, 7), { stakingPoints: 0, priceEth: 1 }])).toBeNull();
+  });
+
+  it('falls back to a flat price when every sale has the same points', () => {
+    const model = fitFairValueModel(Array.from({ length: 8 }, () => ({ stakingPoints: 500, priceEth: 0.02 })))!;
+
+    expect(model.slope).toBe(0);
+    expect(getFairValue(model, 5000)!.fair).toBeCloseTo(0.02);
+  });
+});
+
+describe('getFairValue', () => {
+  const model = fitFairValueModel(SAMPLES)!;
+
+  it('returns a band around the fair value', () => {
+    const value = getFairValue(model, 2500)!;
+
+    expect(value.fair).toBeCloseTo(0.05, 2);
+    expect(value.low).toBeLessThan(value.fair);
+    expect(value.high).toBeGreaterThan(value.fair);
+  });
+
+  it('widens the band away from the sampled points', () => {
+    const inside = getFairValue(model, 2500)!;
+    const outside = getFairValue(model, 1_000_000)!;
+
+    expect(outside.high / outside.low).toBeGreaterThan(inside.high / inside.low);
+  });
+
+  it('returns null without points', () => {
+    expect(getFairValue(model, 0)).toBeNull();
+  });
+});
+
+const ETH_USD = 2500;
+
+describe('getFairValueDelta', () => {
+  it('compares the listing price to its fair value', () => {
+    const listing = makeListing({ value: '40000000000000000' }); // 0.04
+    listing.fairValue = { fair: 0.05, low: 0.04, high: 0.06 };
+
+    expect(getFairValueDelta(listing, ETH_USD)).toBeCloseTo(-0.2);
+  });
+
+  it('returns null without a fair value', () => {
+    expect(getFairValueDelta(makeListing({ value: '40000000000000000' }), ETH_USD)).toBeNull();
+  });
+});
+
+describe('getDiscountScore', () => {
+  it('is positive below fair value and negative above', () => {
+    const cheap = makeListing({ value: '40000000000000000' }); // 0.04
+    const pricey = makeListing({ value: '60000000000000000' }); // 0.06
+    cheap.fairValue = pricey.fairValue = { fair: 0.05, low: 0.04, high: 0.06 };
+
+    expect(getDiscountScore(cheap, ETH_USD)).toBeCloseTo(0.2);
+    expect(getDiscountScore(pricey, ETH_USD)).toBeCloseTo(-0.2);
+  });
+
+  it('returns null without a fair value', () => {
+    expect(getDiscountScore(makeListing({ value: '40000000000000000' }), ETH_USD)).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { FairValueEstimate, NFTType, NFTWithMetadata, getPriceValue } from '@/utils/api';
+import { PriceSample, fetchPriceSamples } from '@/utils/market';
+
+/**
+ * Log-log regression of sale price (ETH) against staking points:
+ * ln(price) = intercept + slope * ln(points)
+ */
+export interface FairValueModel {
+  intercept: number;
+  slope: number;
+  // Standard deviation of ln(price) residuals
+  residualStd: number;
+  sampleSize: number;
+  meanLogPoints: number;
+  // Sum of squared deviations of ln(points), for the prediction band
+  sumSqLogPoints: number;
+}
+
+// Fewer sales than this give a meaningless fit
+const MIN_SAMPLES = 8;
+
+// z-score of the confidence band (80%)
+const BAND_Z = 1.2816;
+
+/**
+ * Fit the model on sales with positive points and price; null with too few samples
+ */
+export function fitFairValueModel(samples: PriceSample[]): FairValueModel | null {
+  const points = samples
+    .filter(s => s.stakingPoints > 0 && s.priceEth > 0)
+    .map(s => ({ x: Math.log(s.stakingPoints), y: Math.log(s.priceEth) }));
+
+  const n = points.length;
+  if (n < MIN_SAMPLES) return null;
+
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+  const sxx = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  const sxy = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+
+  // All sales at the same points level: fall back to a flat price
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const intercept = meanY - slope * meanX;
+
+  const sse = points.reduce((sum, p) => sum + (p.y - (intercept + slope * p.x)) ** 2, 0);
+
+  return {
+    intercept,
+    slope,
+    residualStd: Math.sqrt(sse / Math.max(n - 2, 1)),
+    sampleSize: n,
+    meanLogPoints: meanX,
+    sumSqLogPoints: sxx,
+  };
+}
+
+/**
+ * Fair value and confidence band in ETH for a points value
+ */
+export function getFairValue(model: FairValueModel, points: number): FairValueEstimate | null {
+  if (!(points > 0)) return null;
+
+  const x = Math.log(points);
+  const predicted = model.intercept + model.slope * x;
+  const leverage = model.sumSqLogPoints > 0 ? (x - model.meanLogPoints) ** 2 / model.sumSqLogPoints : 0;
+  const margin = BAND_Z * model.residualStd * Math.sqrt(1 + 1 / model.sampleSize + leverage);
+
+  return {
+    fair: Math.exp(predicted),
+    low: Math.exp(predicted - margin),
+    high: Math.exp(predicted + margin),
+  };
+}
+
+/**
+ * Listing price relative to its fair value: -0.12 = 12% below, 0.08 = 8% above
+ */
+export function getFairValueDelta(listing: NFTWithMetadata, ethPriceUSD: number): number | null {
+  const price = getPriceValue(listing, ethPriceUSD);
+  if (!listing.fairValue || price <= 0) return null;
+  return (price - listing.fairValue.fair) / listing.fairValue.fair;
+}
+
+/**
+ * Discount to fair value used to rank deals: 0.15 = listed 15% below, negative = above
+ */
+export function getDiscountScore(listing: NFTWithMetadata, ethPriceUSD: number): number | null {
+  const delta = getFairValueDelta(listing, ethPriceUSD);
+  return delta === null ? null : -delta;
+}
+
+/**
+ * Fit a collection's model on its most recent ETH/WETH sales
+ */
+export async function fetchFairValueModel(nftType: NFTType): Promise<FairValueModel | null> {
+  return fitFairValueModel(await fetchPriceSamples(nftType));
+}
@@ -0,0 +1,31 @@
+// Fiat currencies offered in the Header selector (also requested from eth-price)
+export const FIAT_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD'] as const;
+
+export type FiatCurrency = typeof FIAT_CURRENCIES[number];
+
+export const DEFAULT_FIAT: FiatCurrency = 'USD';
+
+export function isFiatCurrency(value: unknown): value is FiatCurrency {
+  return typeof value === 'string' && (FIAT_CURRENCIES as readonly string[]).includes(value);
+}
+
+/**
+ * Currency symbol as the browser renders it, e.g. "$", "€", "CHF"
+ */
+export function getFiatSymbol(currency: FiatCurrency): string {
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency })
+    .formatToParts(0)
+    .find(part => part.type === 'currency')?.value ?? currency;
+}
+
+/**
+ * Format an amount in a fiat currency, e.g. "€1,234" or "¥190,000"
+ */
+export function formatFiat(amount: number, currency: FiatCurrency, fractionDigits = 0): string {
+  return new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(amount);
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+import { makeListing } from './__fixtures__/listings';
+import { NFTWithMetadata } from './api';
+import { DEFAULT_FILTERS, applyListingFilters, countActiveFilters, getFilterBounds } from './filters';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { functions: { invoke: vi.fn() } },
+}));
+
+const NOW = Date.UTC(2026, 0, 10);
+const ETH_USD = 2000;
+const hoursAgo = (h: number) => NOW / 1000 - h * 3600;
+
+const LISTINGS: NFTWithMetadata[] = [
+  { ...makeListing({ tokenId: '5', value: '10000000000000000', stakingPoints: 100 }), tokenId: '5', start_time: hoursAgo(2) },
+  { ...makeListing({ tokenId: '150', value: '50000000000000000', stakingPoints: 5000 }), tokenId: '150', start_time: hoursAgo(30) },
+  { ...makeListing({ tokenId: '1500', value: '1000000000000000000', stakingPoints: 20000 }), tokenId: '1500', start_time: null },
+];
+const ids = (listings: NFTWithMetadata[]) => listings.map(l => l.tokenId);
+
+describe('applyListingFilters', () => {
+  it('keeps everything with the defaults', () => {
+    expect(ids(applyListingFilters(LISTINGS, DEFAULT_FILTERS, ETH_USD, NOW))).toEqual(['5', '150', '1500']);
+  });
+
+  it('filters by price, points and pts/$ ranges', () => {
+    expect(ids(applyListingFilters(LISTINGS, { ...DEFAULT_FILTERS, priceRange: [0.02, 2] }, ETH_USD, NOW))).toEqual(['150', '1500']);
+    expect(ids(applyListingFilters(LISTINGS, { ...DEFAULT_FILTERS, pointsRange: [0, 5000] }, ETH_USD, NOW))).toEqual(['5', '150']);
+    // 5 → 5 pts/$, 150 → 50 pts/$, 1500 → 10 pts/$
+    expect(ids(applyListingFilters(LISTINGS, { ...DEFAULT_FILTERS, pointsPerUSDRange: [10, 100] }, ETH_USD, NOW))).toEqual(['150', '1500']);
+  });
+
+  it('matches token ids by substring or id range', () => {
+    expect(ids(applyListingFilters(LISTINGS, { ...DEFAULT_FILTERS, tokenQuery: '15' }, ETH_USD, NOW))).toEqual(['150', '1500']);
+    expect(ids(applyListingFilters(LISTINGS, { ...DEFAULT_FILTERS, tokenQuery: '1-200' }, ETH_USD, NOW))).toEqual(['5', '150']);
+  });
+
+  it('keeps only recent listings with a known start time', () => {
+    expect(ids(applyListingFilters(LISTINGS, { ...DEFAULT_FILTERS, listedWithinHours: 24 }, ETH_USD, NOW))).toEqual(['5']);
+  });
+});
+
+describe('getFilterBounds', () => {
+  it('returns the maximum of each filtered value', () => {
+    expect(getFilterBounds(LISTINGS, ETH_USD)).toEqual({ maxPrice: 1, maxPoints: 20000, maxPointsPerUSD: 50 });
+  });
+});
+
+describe('countActiveFilters', () => {
+  it('counts set filters only', () => {
+    expect(countActiveFilters(DEFAULT_FILTERS)).toBe(0);
+    expect(countActiveFilters({ ...DEFAULT_FILTERS, priceRange: [0, 1], tokenQuery: '  ' })).toBe(1);
+  });
+});
@@ -0,0 +1,94 @@
+import { NFTWithMetadata, calculatePointsPerUSD, getPriceValue } from '@/utils/api';
+
+export type Range = [number, number];
+
+/**
+ * Advanced listing filters. Null ranges and an empty query don't filter.
+ */
+export interface ListingFilters {
+  // ETH
+  priceRange: Range | null;
+  pointsRange: Range | null;
+  pointsPerUSDRange: Range | null;
+  // Token id substring, or an id range like "100-250"
+  tokenQuery: string;
+  listedWithinHours: number | null;
+}
+
+export const DEFAULT_FILTERS: ListingFilters = {
+  priceRange: null,
+  pointsRange: null,
+  pointsPerUSDRange: null,
+  tokenQuery: '',
+  listedWithinHours: null,
+};
+
+export const LISTED_WITHIN_OPTIONS = [1, 6, 24, 72, 168];
+
+/**
+ * Upper slider bounds for the current listings
+ */
+export interface FilterBounds {
+  maxPrice: number;
+  maxPoints: number;
+  maxPointsPerUSD: number;
+}
+
+export function getFilterBounds(listings: NFTWithMetadata[], ethPriceUSD: number): FilterBounds {
+  return listings.reduce<FilterBounds>((bounds, listing) => ({
+    maxPrice: Math.max(bounds.maxPrice, getPriceValue(listing, ethPriceUSD)),
+    maxPoints: Math.max(bounds.maxPoints, listing.stakingPoints ?? 0),
+    maxPointsPerUSD: Math.max(bounds.maxPointsPerUSD, calculatePointsPerUSD(listing, ethPriceUSD)),
+  }), { maxPrice: 0, maxPoints: 0, maxPointsPerUSD: 0 });
+}
+
+function inRange(value: number, range: Range | null): boolean {
+  return !range || (value >= range[0] && value <= range[1]);
+}
+
+function matchesTokenQuery(tokenId: string | undefined, query: string): boolean {
+  const trimmed = query.trim();
+  if (!trimmed) return true;
+  if (!tokenId) return false;
+
+  const range = trimmed.match(/^(\d+)\s*-\s*(\d+)$/);
+  if (range) {
+    const id = Number(tokenId);
+    const [from, to] = [Number(range[1]), Number(range[2])].sort((a, b) => a - b);
+    return id >= from && id <= to;
+  }
+
+  return tokenId.includes(trimmed);
+}
+
+/**
+ * Listings matching every active filter, in input order
+ */
+export function applyListingFilters(
+  listings: NFTWithMetadata[],
+  filters: ListingFilters,
+  ethPriceUSD: number,
+  now = Date.now()
+): NFTWithMetadata[] {
+  const listedAfter = filters.listedWithinHours !== null
+    ? now / 1000 - filters.listedWithinHours * 3600
+    : null;
+
+  return listings.filter(listing =>
+    inRange(getPriceValue(listing, ethPriceUSD), filters.priceRange) &&
+    inRange(listing.stakingPoints ?? 0, filters.pointsRange) &&
+    inRange(calculatePointsPerUSD(listing, ethPriceUSD), filters.pointsPerUSDRange) &&
+    matchesTokenQuery(listing.tokenId, filters.tokenQuery) &&
+    (listedAfter === null || (!!listing.start_time && listing.start_time >= listedAfter))
+  );
+}
+
+export function countActiveFilters(filters: ListingFilters): number {
+  return [
+    filters.priceRange,
+    filters.pointsRange,
+    filters.pointsPerUSDRange,
+    filters.tokenQuery.trim() || null,
+    filters.listedWithinHours,
+  ].filter(value => value !== null).length;
+}
@@ -0,0 +1,186 @@
+import { supabase } from '@/integrations/supabase/client';
+import { COLLECTION_SLUGS, ETH_PEGGED, NFTType, NFTWithMetadata, TimeRange, TIME_RANGE_SECONDS, getPriceValue } from '@/utils/api';
+
+// ETH price bucket edges for the listing depth histogram
+export const PRICE_BUCKETS = [0, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1];
+
+// Points thresholds for "cheapest seed with ≥ N points"
+export const POINTS_TIERS = [1_000, 5_000, 10_000, 25_000, 50_000, 100_000];
+
+export interface DepthBucket {
+  label: string;
+  min: number;
+  max: number;
+  count: number;
+}
+
+export interface TierFloor {
+  minPoints: number;
+  price: number | null;
+  tokenId: string | null;
+}
+
+export interface MarketSummary {
+  floor: number | null;
+  floorTokenId: string | null;
+  listingCount: number;
+  depth: DepthBucket[];
+  tierFloors: TierFloor[];
+}
+
+function bucketLabel(min: number, max: number): string {
+  return Number.isFinite(max) ? `${min}–${max}` : `${min}+`;
+}
+
+/**
+ * Summarize deduplicated listings (output of fetchNFTListings)
+ */
+export function summarizeListings(listings: NFTWithMetadata[], ethPriceUSD: number): MarketSummary {
+  const priced = listings
+    .map(listing => ({ listing, price: getPriceValue(listing, ethPriceUSD) }))
+    .filter(({ price }) => price > 0)
+    .sort((a, b) => a.price - b.price);
+
+  const depth: DepthBucket[] = PRICE_BUCKETS.map((min, i) => {
+    const max = PRICE_BUCKETS[i + 1] ?? Number.POSITIVE_INFINITY;
+    return { label: bucketLabel(min, max), min, max, count: 0 };
+  });
+
+  for (const { price } of priced) {
+    const bucket = depth.find(b => price >= b.min && price < b.max);
+    if (bucket) bucket.count++;
+  }
+
+  // priced is sorted ascending, so the first match is the tier floor
+  const tierFloors: TierFloor[] = POINTS_TIERS.map(minPoints => {
+    const cheapest = priced.find(({ listing }) => (listing.stakingPoints || 0) >= minPoints);
+    return {
+      minPoints,
+      price: cheapest?.price ?? null,
+      tokenId: cheapest?.listing.tokenId ?? null,
+    };
+  });
+
+  return {
+    floor: priced[0]?.price ?? null,
+    floorTokenId: priced[0]?.listing.tokenId ?? null,
+    listingCount: listings.length,
+    depth,
+    tierFloors,
+  };
+}
+
+export interface PriceSample {
+  priceEth: number;
+  stakingPoints: number;
+  // USD value at the time of sale, when known
+  priceUsd?: number;
+}
+
+export interface SaleSample extends PriceSample {
+  currency: string;
+  soldAt: number;
+}
+
+export interface PricePerPointStats {
+  median: number;
+  topQuartile: number;
+  sampleSize: number;
+}
+
+/**
+ * ETH-per-point ratios of sales with valid points and price
+ * Median ratio = fair price; top quartile = best/optimistic price
+ * Pass `basis: 'usd'` for USD-per-point using each sale's USD value at the time.
+ */
+export function getPricePerPointStats(samples: PriceSample[], basis: 'eth' | 'usd' = 'eth'): PricePerPointStats | null {
+  const ratios = samples
+    .map(s => ({ price: basis === 'usd' ? s.priceUsd ?? 0 : s.priceEth, points: s.stakingPoints }))
+    .filter(s => s.points > 0 && s.price > 0)
+    .map(s => s.price / s.points)
+    .sort((a, b) => a - b);
+
+  if (ratios.length === 0) return null;
+
+  return {
+    median: ratios[Math.floor(ratios.length / 2)],
+    topQuartile: ratios[Math.floor(ratios.length * 0.75)],
+    sampleSize: ratios.length,
+  };
+}
+
+// Most recent sales used for price stats
+const MAX_PRICE_SAMPLES = 1000;
+
+/**
+ * Most recent sales of a collection in the window with positive price and points.
+ * Only ETH/WETH sales unless `ethOnly` is false (price_eth holds token units for
+ * other currencies). Filtering happens in the query so skipped sales don't use up
+ * the sample limit.
+ */
+export async function fetchPriceSamples(
+  nftType: NFTType,
+  timeRange: TimeRange = 'all',
+  { ethOnly = true }: { ethOnly?: boolean } = {},
+): Promise<SaleSample[]> {
+  let query = supabase
+    .from('sales')
+    .select('price_eth, currency, staking_points, sold_at')
+    .eq('collection_slug', COLLECTION_SLUGS[nftType])
+    .gt('staking_points', 0)
+    .gt('price_eth', 0)
+    .order('sold_at', { ascending: false })
+    .limit(MAX_PRICE_SAMPLES);
+
+  if (ethOnly) query = query.in('currency', ETH_PEGGED);
+  if (timeRange !== 'all') {
+    query = query.gte('sold_at', new Date(Date.now() - TIME_RANGE_SECONDS[timeRange] * 1000).toISOString());
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []).map((s) => ({
+    priceEth: Number(s.price_eth),
+    stakingPoints: Number(s.staking_points),
+    currency: s.currency,
+    soldAt: new Date(s.sold_at).getTime(),
+  }));
+}
+
+/**
+ * Median ETH per point of a collection's sales in the window, or null without sales
+ */
+export async function fetchMedianEthPerPoint(nftType: NFTType, timeRange: TimeRange): Promise<number | null> {
+  const stats = getPricePerPointStats(await fetchPriceSamples(nftType, timeRange));
+  return stats?.median ?? null;
+}
+
+export interface EthPricePoint {
+  // UTC date, YYYY-MM-DD
+  day: string;
+  price: number;
+}
+
+/**
+ * ETH/USD on the UTC day of `timestampMs` from an ascending daily series.
+ * Uses the closest earlier day when that day is missing; null before the series starts.
+ */
+export function getEthPriceOn(series: EthPricePoint[], timestampMs: number): number | null {
+  const day = new Date(timestampMs).toISOString().slice(0, 10);
+  let lo = 0;
+  let hi = series.length - 1;
+  let found: EthPricePoint | null = null;
+
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (series[mid].day <= day) {
+      found = series[mid];
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+
+  return found?.price ?? null;
+}
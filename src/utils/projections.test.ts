@@ -0,0 +1,28 @@
+import { describe, it, expect, vi } from 'vitest';
+import { formatPointsPerDay, toPointsProjection } from './projections';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn() },
+}));
+
+describe('toPointsProjection', () => {
+  it('maps stored columns', () => {
+    expect(toPointsProjection({ points_per_day: 12.5, projected_points_30d: 1375 }))
+      .toEqual({ pointsPerDay: 12.5, projected30d: 1375 });
+  });
+
+  it('is null without enough history', () => {
+    expect(toPointsProjection({ points_per_day: null, projected_points_30d: null })).toBeNull();
+  });
+});
+
+describe('formatPointsPerDay', () => {
+  it('keeps one decimal for slow accrual', () => {
+    expect(formatPointsPerDay(2.34)).toBe('+2.3/day');
+  });
+
+  it('rounds and abbreviates faster accrual', () => {
+    expect(formatPointsPerDay(1234.4)).toBe('+1.2K/day');
+    expect(formatPointsPerDay(0)).toBe('+0/day');
+  });
+});
@@ -0,0 +1,60 @@
+import { supabase } from '@/integrations/supabase/client';
+import { COLLECTION_SLUGS, NFTType, PointsProjection, formatNumber } from '@/utils/api';
+
+/**
+ * Accrual rates are fitted in Postgres by update_points_projections after
+ * each leaderboard refresh, from the token's recent points snapshots.
+ */
+
+export const PROJECTION_DAYS = 30;
+
+export const PROJECTION_COLUMNS = 'points_per_day, projected_points_30d';
+
+interface ProjectionRow {
+  points_per_day: number | null;
+  projected_points_30d: number | null;
+}
+
+/**
+ * Null until a token has enough history for a rate
+ */
+export function toPointsProjection(row: ProjectionRow): PointsProjection | null {
+  if (row.points_per_day === null || row.projected_points_30d === null) return null;
+  return {
+    pointsPerDay: row.points_per_day,
+    projected30d: Number(row.projected_points_30d),
+  };
+}
+
+/**
+ * "+1.2K/day" style rate label
+ */
+export function formatPointsPerDay(pointsPerDay: number): string {
+  const rounded = pointsPerDay >= 10 ? Math.round(pointsPerDay) : Math.round(pointsPerDay * 10) / 10;
+  return `+${formatNumber(rounded)}/day`;
+}
+
+/**
+ * Stored projections for a set of tokens in one collection, keyed by token id
+ */
+export async function fetchPointsProjections(
+  nftType: NFTType,
+  tokenIds: string[]
+): Promise<Map<string, PointsProjection>> {
+  const projections = new Map<string, PointsProjection>();
+  if (tokenIds.length === 0) return projections;
+
+  const { data, error } = await supabase
+    .from('leaderboard_entries')
+    .select(`token_id, ${PROJECTION_COLUMNS}`)
+    .eq('collection_slug', COLLECTION_SLUGS[nftType])
+    .in('token_id', tokenIds);
+
+  if (error) throw error;
+
+  for (const row of data || []) {
+    const projection = toPointsProjection(row);
+    if (projection) projections.set(row.token_id, projection);
+  }
+  return projections;
+}
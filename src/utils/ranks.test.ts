@@ -0,0 +1,38 @@
+import { describe, it, expect, vi } from 'vitest';
+import { formatTopPercent, rankTitle, toSeedRank } from './ranks';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from: vi.fn() },
+}));
+
+describe('formatTopPercent', () => {
+  it('rounds up to whole percents from 1% on', () => {
+    expect(formatTopPercent(1)).toBe('Top 1%');
+    expect(formatTopPercent(12.3)).toBe('Top 13%');
+    expect(formatTopPercent(100)).toBe('Top 100%');
+  });
+
+  it('keeps one decimal below 1%', () => {
+    expect(formatTopPercent(0.42)).toBe('Top 0.5%');
+    expect(formatTopPercent(0.016)).toBe('Top 0.1%');
+  });
+});
+
+describe('toSeedRank', () => {
+  it('keeps unranked seeds null', () => {
+    expect(toSeedRank({ global_rank: null, type_rank: null, top_percent: null }))
+      .toEqual({ global: null, type: null, topPercent: null });
+  });
+
+  it('maps stored columns', () => {
+    expect(toSeedRank({ global_rank: 2, type_rank: 1, top_percent: 0.05 }))
+      .toEqual({ global: 2, type: 1, topPercent: 0.05 });
+  });
+});
+
+describe('rankTitle', () => {
+  it('lists the collection rank and top share that are known', () => {
+    expect(rankTitle('Mythic', { global: 5, type: 3, topPercent: 2.5 })).toBe('#3 Mythic · Top 3%');
+    expect(rankTitle('Ancient', { global: 5, type: 1, topPercent: null })).toBe('#1 Ancient');
+  });
+});
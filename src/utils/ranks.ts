@@ -0,0 +1,128 @@
+import { supabase } from '@/integrations/supabase/client';
+import { COLLECTION_SLUGS, NFTType, SeedRank } from '@/utils/api';
+
+/**
+ * Ranks are computed in Postgres by update_leaderboard_ranks when a
+ * leaderboard refresh completes: competition ranking (1,2,2,4) by points,
+ * globally and per collection. Seeds with 0 points are unranked. Points
+ * written back by staking-points-batch re-run it, without rolling the
+ * previous ranks, so movers still compare against the last refresh.
+ */
+
+export const RANK_COLUMNS = 'global_rank, type_rank, top_percent';
+
+interface RankRow {
+  global_rank: number | null;
+  type_rank: number | null;
+  top_percent: number | null;
+}
+
+export function toSeedRank(row: RankRow): SeedRank {
+  return {
+    global: row.global_rank,
+    type: row.type_rank,
+    topPercent: row.top_percent,
+  };
+}
+
+/**
+ * "Top 0.1%" style label; under 1% keeps one decimal, rounding up so the
+ * label never claims a better position than the seed has
+ */
+export function formatTopPercent(topPercent: number): string {
+  const value = topPercent < 1
+    ? Math.max(Math.ceil(topPercent * 10) / 10, 0.1).toFixed(1)
+    : String(Math.ceil(topPercent));
+  return `Top ${value}%`;
+}
+
+/**
+ * Stored ranks for a set of tokens in one collection, keyed by token id
+ */
+export async function fetchSeedRanks(nftType: NFTType, tokenIds: string[]): Promise<Map<string, SeedRank>> {
+  const ranks = new Map<string, SeedRank>();
+  if (tokenIds.length === 0) return ranks;
+
+  const { data, error } = await supabase
+    .from('leaderboard_entries')
+    .select(`token_id, ${RANK_COLUMNS}`)
+    .eq('collection_slug', COLLECTION_SLUGS[nftType])
+    .in('token_id', tokenIds);
+
+  if (error) throw error;
+
+  for (const row of data || []) {
+    ranks.set(row.token_id, toSeedRank(row));
+  }
+  return ranks;
+}
+
+/**
+ * Tooltip with the per-collection rank and top share
+ */
+export function rankTitle(nftType: NFTType, rank: SeedRank): string {
+  return [
+    rank.type != null ? `#${rank.type} ${nftType}` : null,
+    rank.topPercent != null ? formatTopPercent(rank.topPercent) : null,
+  ].filter(Boolean).join(' · ');
+}
+
+export const MOVER_METRICS = ['points', 'rank'] as const;
+export type MoverMetric = typeof MOVER_METRICS[number];
+
+/**
+ * Change since the previous completed refresh; positive = gained points or climbed
+ */
+export interface RankMover {
+  tokenId: string;
+  nftType: NFTType;
+  points: number;
+  imageUrl: string | null;
+  rank: SeedRank;
+  pointsDelta: number | null;
+  rankDelta: number | null;
+}
+
+const MOVER_COLUMNS = {
+  points: 'points_delta',
+  rank: 'rank_delta',
+} as const;
+
+/**
+ * Biggest gainers and losers by Δpoints or Δrank, optionally for one collection
+ */
+export async function fetchRankMovers(
+  metric: MoverMetric,
+  nftType: NFTType | null,
+  limit = 10
+): Promise<{ gainers: RankMover[]; losers: RankMover[] }> {
+  const column = MOVER_COLUMNS[metric];
+
+  const query = (ascending: boolean) => {
+    let q = supabase
+      .from('leaderboard_entries')
+      .select(`token_id, nft_type, points, image_url, points_delta, rank_delta, ${RANK_COLUMNS}`);
+    if (nftType) q = q.eq('nft_type', nftType);
+    q = ascending ? q.lt(column, 0) : q.gt(column, 0);
+    return q.order(column, { ascending }).order('points', { ascending: false }).limit(limit);
+  };
+
+  const [gainers, losers] = await Promise.all([query(false), query(true)]);
+  if (gainers.error) throw gainers.error;
+  if (losers.error) throw losers.error;
+
+  const toMover = (row: NonNullable<typeof gainers.data>[number]): RankMover => ({
+    tokenId: row.token_id,
+    nftType: row.nft_type as NFTType,
+    points: Number(row.points),
+    imageUrl: row.image_url,
+    rank: toSeedRank(row),
+    pointsDelta: row.points_delta !== null ? Number(row.points_delta) : null,
+    rankDelta: row.rank_delta,
+  });
+
+  return {
+    gainers: (gainers.data || []).map(toMover),
+    losers: (losers.data || []).map(toMover),
+  };
+}
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL: string;
+  readonly VITE_SUPABASE_PUBLISHABLE_KEY: string;
+  readonly VITE_OPENSEA_WEB_URL?: string;
+  readonly VITE_POINTS_CACHE_TTL_MINUTES?: string;
+}
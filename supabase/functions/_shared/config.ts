@@ -0,0 +1,6 @@
+/**
+ * Upstream API base URLs. Override with env vars to run against the local
+ * mock server (supabase/mock-api) instead of the real services.
+ */
+export const OPENSEA_API_BASE = (Deno.env.get('OPENSEA_API_BASE') ?? 'https://api.opensea.io/api/v2').replace(/\/$/, '');
+export const STAKING_API_BASE = (Deno.env.get('STAKING_API_BASE') ?? 'https://staking.youmio.ai/api').replace(/\/$/, '');
@@ -0,0 +1,287 @@
+/**
+ * Shared OpenSea API v2 client for edge functions.
+ *
+ * Every request goes through the same retry/backoff, 429 Retry-After handling
+ * and timeout. The base URL comes from OPENSEA_API_BASE (see config.ts) so
+ * functions can be pointed at a mock server.
+ */
+
+import { OPENSEA_API_BASE } from './config.ts';
+
+export interface OpenSeaClientOptions {
+  baseUrl?: string;
+  apiKey?: string;
+  maxRetries?: number;
+  timeoutMs?: number;
+  logPrefix?: string;
+}
+
+export interface OpenSeaListing {
+  order_hash?: string;
+  price?: {
+    current?: { currency?: string; decimals?: number; value?: string };
+  };
+  protocol_data?: {
+    parameters?: {
+      offer?: { token?: string; identifierOrCriteria?: string }[];
+      // Unix seconds, as strings
+      startTime?: string;
+      endTime?: string;
+    };
+  };
+  [key: string]: unknown;
+}
+
+export interface OpenSeaNFT {
+  identifier: string;
+  collection?: string;
+  contract?: string;
+  token_standard?: string;
+  name: string | null;
+  description?: string | null;
+  image_url: string | null;
+  display_image_url?: string | null;
+  metadata_url?: string | null;
+  opensea_url: string | null;
+  updated_at?: string;
+  is_disabled?: boolean;
+  is_nsfw?: boolean;
+}
+
+export interface OpenSeaEvent {
+  event_type?: string;
+  transaction?: string;
+  event_timestamp?: number;
+  closing_date?: number;
+  seller?: string;
+  buyer?: string;
+  nft?: {
+    identifier?: string;
+    name?: string;
+    display_image_url?: string;
+    image_url?: string;
+    opensea_url?: string;
+  };
+  payment?: {
+    quantity?: string;
+    decimals?: number;
+    symbol?: string;
+  };
+}
+
+export interface Page<T> {
+  items: T[];
+  next: string | null;
+}
+
+export interface PaginateOptions {
+  maxPages?: number;
+  // Return what was collected when a later page fails (default true)
+  partial?: boolean;
+}
+
+export class OpenSeaApiError extends Error {
+  constructor(message: string, public status: number, public details?: string) {
+    super(message);
+    this.name = 'OpenSeaApiError';
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Retry-After is either seconds or an HTTP date
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export function createOpenSeaClient(options: OpenSeaClientOptions = {}) {
+  const baseUrl = (options.baseUrl ?? OPENSEA_API_BASE).replace(/\/$/, '');
+  const apiKey = options.apiKey ?? Deno.env.get('OPENSEA_API_KEY') ?? '';
+  const maxRetries = options.maxRetries ?? 3;
+  const timeoutMs = options.timeoutMs ?? 15000;
+  const logPrefix = options.logPrefix ?? '[OpenSea]';
+
+  async function request<T>(path: string, params: Record<string, string | number | undefined> = {}): Promise<T> {
+    const url = new URL(`${baseUrl}${path}`);
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) url.searchParams.set(key, String(value));
+    }
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      const isLastAttempt = attempt === maxRetries;
+      const backoffMs = 1000 * 2 ** (attempt - 1); // 1s, 2s, 4s
+
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          headers: { 'Accept': 'application/json', 'X-API-KEY': apiKey },
+          signal: controller.signal,
+        });
+      } catch (error) {
+        const timedOut = (error as Error).name === 'AbortError';
+        if (!isLastAttempt) {
+          console.log(`${logPrefix} ${timedOut ? 'Timeout' : 'Network error'}, retry ${attempt}/${maxRetries}...`);
+          await sleep(backoffMs);
+          continue;
+        }
+        if (timedOut) throw new OpenSeaApiError(`OpenSea request timed out after ${timeoutMs}ms`, 408);
+        throw error;
+      } finally {
+        clearTimeout(timeout);
+      }
+
+      if (response.ok) return await response.json() as T;
+
+      const details = await response.text();
+
+      if (response.status === 429 && !isLastAttempt) {
+        const waitMs = parseRetryAfter(response.headers.get('Retry-After')) ?? backoffMs;
+        console.log(`${logPrefix} Rate limited, waiting ${waitMs}ms (retry ${attempt}/${maxRetries})...`);
+        await sleep(waitMs);
+        continue;
+      }
+
+      if (response.status >= 500 && !isLastAttempt) {
+        console.log(`${logPrefix} Server error ${response.status}, retry ${attempt}/${maxRetries}...`);
+        await sleep(backoffMs);
+        continue;
+      }
+
+      throw new OpenSeaApiError(`OpenSea API error: ${response.status}`, response.status, details);
+    }
+
+    throw new Error('Max retries exceeded');
+  }
+
+  /**
+   * Follow `next` cursors until exhausted or maxPages is reached
+   */
+  async function paginate<T>(
+    fetchPage: (next: string | null) => Promise<Page<T>>,
+    { maxPages = 20, partial = true }: PaginateOptions = {}
+  ): Promise<T[]> {
+    const items: T[] = [];
+    let next: string | null = null;
+    let pageCount = 0;
+
+    do {
+      pageCount++;
+      try {
+        const page = await fetchPage(next);
+        items.push(...page.items);
+        next = page.next;
+      } catch (error) {
+        if (!partial || items.length === 0) throw error;
+        console.error(`${logPrefix} Page ${pageCount} failed, returning ${items.length} items collected so far:`, error);
+        break;
+      }
+
+      if (pageCount >= maxPages) {
+        console.log(`${logPrefix} Reached max pages limit (${maxPages})`);
+        break;
+      }
+    } while (next);
+
+    return items;
+  }
+
+  async function getListingsPage(collectionSlug: string, next: string | null = null): Promise<Page<OpenSeaListing>> {
+    const data = await request<{ listings?: OpenSeaListing[]; next?: string }>(
+      `/listings/collection/${collectionSlug}/all`,
+      { next: next ?? undefined }
+    );
+    return { items: data.listings || [], next: data.next || null };
+  }
+
+  async function getCollectionNFTsPage(
+    collectionSlug: string,
+    next: string | null = null,
+    limit = 200
+  ): Promise<Page<OpenSeaNFT>> {
+    const data = await request<{ nfts?: OpenSeaNFT[]; next?: string }>(
+      `/collection/${collectionSlug}/nfts`,
+      { limit, next: next ?? undefined }
+    );
+    return { items: data.nfts || [], next: data.next || null };
+  }
+
+  async function getAccountNFTsPage(
+    address: string,
+    collectionSlug: string,
+    next: string | null = null,
+    limit = 200
+  ): Promise<Page<OpenSeaNFT>> {
+    const data = await request<{ nfts?: OpenSeaNFT[]; next?: string }>(
+      `/chain/ethereum/account/${address}/nfts`,
+      { collection: collectionSlug, limit, next: next ?? undefined }
+    );
+    return { items: data.nfts || [], next: data.next || null };
+  }
+
+  async function getCollectionEventsPage(
+    collectionSlug: string,
+    { eventType = 'sale', limit = 50, next = null }: { eventType?: string; limit?: number; next?: string | null } = {}
+  ): Promise<Page<OpenSeaEvent>> {
+    const data = await request<{ asset_events?: OpenSeaEvent[]; next?: string }>(
+      `/events/collection/${collectionSlug}`,
+      { event_type: eventType, limit, next: next ?? undefined }
+    );
+    return { items: data.asset_events || [], next: data.next || null };
+  }
+
+  async function getNFTEventsPage(
+    contractAddress: string,
+    tokenId: string,
+    { eventType = 'sale', limit = 50, next = null }: { eventType?: string; limit?: number; next?: string | null } = {}
+  ): Promise<Page<OpenSeaEvent>> {
+    const data = await request<{ asset_events?: OpenSeaEvent[]; next?: string }>(
+      `/events/chain/ethereum/contract/${contractAddress}/nfts/${tokenId}`,
+      { event_type: eventType, limit, next: next ?? undefined }
+    );
+    return { items: data.asset_events || [], next: data.next || null };
+  }
+
+  return {
+    request,
+    paginate,
+    getListingsPage,
+    getCollectionNFTsPage,
+    getAccountNFTsPage,
+    getCollectionEventsPage,
+    getNFTEventsPage,
+
+    /** All active listings for a collection (duplicates included) */
+    getAllListings: (collectionSlug: string, opts?: PaginateOptions) =>
+      paginate((next) => getListingsPage(collectionSlug, next), { maxPages: 20, ...opts }),
+
+    /** Every NFT in a collection */
+    getAllCollectionNFTs: (collectionSlug: string, opts?: PaginateOptions) =>
+      paginate((next) => getCollectionNFTsPage(collectionSlug, next), { maxPages: 50, ...opts }),
+
+    /** NFTs of one collection held by a wallet */
+    getAllAccountNFTs: (address: string, collectionSlug: string, opts?: PaginateOptions) =>
+      paginate((next) => getAccountNFTsPage(address, collectionSlug, next), { maxPages: 10, ...opts }),
+
+    /** A single NFT, or null when OpenSea doesn't know it */
+    getNFT: async (contractAddress: string, tokenId: string): Promise<OpenSeaNFT | null> => {
+      try {
+        const data = await request<{ nft?: OpenSeaNFT }>(`/chain/ethereum/contract/${contractAddress}/nfts/${tokenId}`);
+        return data.nft ?? null;
+      } catch (error) {
+        if (error instanceof OpenSeaApiError && error.status === 404) return null;
+        throw error;
+      }
+    },
+  };
+}
+
+export type OpenSeaClient = ReturnType<typeof createOpenSeaClient>;
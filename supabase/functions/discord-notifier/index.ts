@@ -0,0 +1,336 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createOpenSeaClient } from '../_shared/opensea.ts';
+
+/**
+ * Posts to a Discord webhook when a new listing offers the most points per ETH
+ * (the grid's "Most Points per ETH" sort, not its fair value "Best Deal" badge)
+ * or a big sale is ingested.
+ *
+ * Env:
+ *   DISCORD_WEBHOOK_URL               webhook to post to; any HTTP endpoint works,
+ *                                     e.g. the mock-api stand-in at http://localhost:8788/webhook
+ *   DISCORD_BIG_SALE_THRESHOLD_ETH    minimum sale price to announce (default 0.5)
+ *   SITE_URL                          optional, links embeds to the seed page
+ *
+ * The first run for a collection only records a baseline. State is saved
+ * after each posted message, so a failed run resumes where it stopped.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const WEBHOOK_URL = Deno.env.get('DISCORD_WEBHOOK_URL') ?? '';
+const BIG_SALE_THRESHOLD_ETH = parseFloat(Deno.env.get('DISCORD_BIG_SALE_THRESHOLD_ETH') ?? '0.5');
+const SITE_URL = (Deno.env.get('SITE_URL') ?? '').replace(/\/$/, '');
+
+const COLLECTIONS = [
+  { nftType: 'Ancient', slug: 'ancientseed' },
+  { nftType: 'Mythic', slug: 'mythicseed' },
+] as const;
+
+const opensea = createOpenSeaClient({ logPrefix: '[Discord]' });
+
+// Sales priced in these are comparable to the ETH threshold
+const ETH_CURRENCIES = ['ETH', 'WETH'];
+
+const BEST_DEAL_COLOR = 0x22c55e;
+const BIG_SALE_COLOR = 0xf59e0b;
+
+// Discord accepts at most 10 embeds per message
+const MAX_EMBEDS = 10;
+
+interface Listing {
+  price: number;
+  contract: string | null;
+  // Unix seconds; null when OpenSea omits it
+  startTime: number | null;
+}
+
+interface BestDeal {
+  tokenId: string;
+  price: number;
+  points: number;
+  contract: string | null;
+  startTime: number | null;
+}
+
+// Row of discord_notifier_state
+interface NotifierState {
+  collection_slug: string;
+  best_deal_token_id: string | null;
+  best_deal_price_eth: number | null;
+  best_deal_points: number | null;
+  // Newest listing start seen; only later listings can be announced
+  last_listing_at: string | null;
+  last_sale_at: string | null;
+}
+
+interface DiscordEmbed {
+  title: string;
+  description: string;
+  url?: string;
+  color: number;
+  thumbnail?: { url: string };
+  timestamp?: string;
+}
+
+// An embed and the state it moves forward once posted
+interface Notification {
+  embed: DiscordEmbed;
+  progress: Partial<NotifierState>;
+}
+
+/**
+ * Lowest listing per token (duplicates keep the cheapest), and the newest
+ * start among all listings in Unix seconds
+ */
+async function fetchLowestListings(collectionSlug: string): Promise<{ listings: Map<string, Listing>; newestStartTime: number }> {
+  const listings = new Map<string, Listing>();
+  let newestStartTime = 0;
+
+  // A partial result could announce a false best deal
+  const all = await opensea.getAllListings(collectionSlug, { partial: false });
+
+  for (const listing of all) {
+    const offer = listing.protocol_data?.parameters?.offer?.[0];
+    const tokenId = offer?.identifierOrCriteria;
+    const current = listing.price?.current;
+    if (!tokenId || !current?.value) continue;
+    // Other tokens have no fixed ETH price; skip rather than misread their decimals
+    if (!ETH_CURRENCIES.includes((current.currency || 'ETH').toUpperCase())) continue;
+
+    const price = parseFloat(current.value) / Math.pow(10, current.decimals ?? 18);
+    const parsedStart = Number(listing.protocol_data?.parameters?.startTime);
+    const startTime = Number.isFinite(parsedStart) && parsedStart > 0 ? parsedStart : null;
+    if (startTime) newestStartTime = Math.max(newestStartTime, startTime);
+
+    const existing = listings.get(tokenId);
+    if (!existing || price < existing.price) {
+      listings.set(tokenId, { price, contract: offer?.token ?? null, startTime });
+    }
+  }
+
+  return { listings, newestStartTime };
+}
+
+/**
+ * Newest listing start as ISO, never moving back behind the previous value
+ */
+function getLastListingAt(newestStartTime: number, previous: string | null): string | null {
+  const previousMs = previous ? Date.parse(previous) : 0;
+  if (newestStartTime * 1000 <= previousMs) return previous;
+  return new Date(newestStartTime * 1000).toISOString();
+}
+
+/**
+ * Only a listing that started after the previous run's newest one is news.
+ * An older listing moving into the slot (e.g. after the best one sold) was
+ * already on the market; a price cut creates a new listing and counts.
+ */
+function isNewBestDeal(best: BestDeal | null, previous: NotifierState | undefined): boolean {
+  if (!best || best.startTime === null || !previous?.last_listing_at) return false;
+  return best.startTime * 1000 > Date.parse(previous.last_listing_at);
+}
+
+function seedUrl(nftType: string, tokenId: string, contract: string | null): string | undefined {
+  if (SITE_URL) return `${SITE_URL}/seed/${nftType.toLowerCase()}/${tokenId}`;
+  if (contract) return `https://opensea.io/assets/ethereum/${contract}/${tokenId}`;
+  return undefined;
+}
+
+async function postToDiscord(embeds: DiscordEmbed[]): Promise<void> {
+  const body = JSON.stringify({ username: 'Youmio Seed', embeds });
+
+  let response = await fetch(WEBHOOK_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+  });
+
+  // Rate limited: wait the advertised time and retry once
+  if (response.status === 429) {
+    const data = await response.json().catch(() => ({}));
+    const retryAfterMs = Math.ceil((data.retry_after ?? 1) * 1000);
+    console.warn(`[Discord] Rate limited, retrying in ${retryAfterMs}ms`);
+    await new Promise((resolve) => setTimeout(resolve, retryAfterMs));
+    response = await fetch(WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+    });
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Discord webhook error: ${response.status} ${errorText}`);
+  }
+}
+
+async function saveState(supabase: SupabaseClient, state: NotifierState): Promise<void> {
+  const { error } = await supabase
+    .from('discord_notifier_state')
+    .upsert({ ...state, updated_at: new Date().toISOString() }, { onConflict: 'collection_slug' });
+  if (error) throw error;
+}
+
+/**
+ * Post in Discord-sized messages, saving the progress of each one so a
+ * failure part way only leaves the unposted messages for the next run
+ */
+async function postNotifications(
+  supabase: SupabaseClient,
+  posted: NotifierState,
+  notifications: Notification[],
+): Promise<void> {
+  for (let i = 0; i < notifications.length; i += MAX_EMBEDS) {
+    const chunk = notifications.slice(i, i + MAX_EMBEDS);
+    await postToDiscord(chunk.map((n) => n.embed));
+    for (const { progress } of chunk) Object.assign(posted, progress);
+    await saveState(supabase, posted);
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  try {
+    let notificationCount = 0;
+
+    const { data: previousStates, error: stateError } = await supabase
+      .from('discord_notifier_state')
+      .select('collection_slug, best_deal_token_id, best_deal_price_eth, best_deal_points, last_listing_at, last_sale_at');
+    if (stateError) throw stateError;
+
+    for (const { nftType, slug } of COLLECTIONS) {
+      const previous = (previousStates as NotifierState[] | null)?.find((s) => s.collection_slug === slug);
+      const notifications: Notification[] = [];
+
+      // --- Best deal ---
+      const { listings, newestStartTime } = await fetchLowestListings(slug);
+      const tokenIds = [...listings.keys()];
+      const lastListingAt = getLastListingAt(newestStartTime, previous?.last_listing_at ?? null);
+
+      // Points come from the leaderboard cache instead of one staking call per token
+      const pointsById = new Map<string, number>();
+      const batchSize = 500;
+      for (let i = 0; i < tokenIds.length; i += batchSize) {
+        const { data: entries, error } = await supabase
+          .from('leaderboard_entries')
+          .select('token_id, points')
+          .eq('collection_slug', slug)
+          .in('token_id', tokenIds.slice(i, i + batchSize));
+
+        if (error) throw error;
+        for (const e of entries || []) pointsById.set(e.token_id, Number(e.points));
+      }
+
+      let best: BestDeal | null = null;
+      for (const [tokenId, listing] of listings) {
+        const points = pointsById.get(tokenId) ?? 0;
+        if (listing.price <= 0 || points <= 0) continue;
+        if (!best || points / listing.price > best.points / best.price) {
+          best = { tokenId, price: listing.price, points, contract: listing.contract, startTime: listing.startTime };
+        }
+      }
+
+      const bestDealState = {
+        best_deal_token_id: best?.tokenId ?? null,
+        best_deal_price_eth: best?.price ?? null,
+        best_deal_points: best?.points ?? null,
+        last_listing_at: lastListingAt,
+      };
+
+      const bestIsNew = isNewBestDeal(best, previous);
+      if (best && bestIsNew) {
+        const pointsPerEth = Math.round(best.points / best.price);
+        notifications.push({
+          embed: {
+            title: `Most Points per ETH: ${nftType} Seed #${best.tokenId}`,
+            description: `Listed at **${best.price.toFixed(4)} ETH** with **${best.points.toLocaleString()}** points (${pointsPerEth.toLocaleString()} pts/ETH)`,
+            url: seedUrl(nftType, best.tokenId, best.contract),
+            color: BEST_DEAL_COLOR,
+          },
+          progress: bestDealState,
+        });
+      }
+
+      // --- Big sales ---
+      let lastSaleAt = previous?.last_sale_at ?? null;
+
+      if (previous) {
+        let query = supabase
+          .from('sales')
+          .select('token_id, price_eth, currency, staking_points, image_url, opensea_url, sold_at')
+          .eq('collection_slug', slug)
+          .order('sold_at', { ascending: true });
+        if (lastSaleAt) query = query.gt('sold_at', lastSaleAt);
+
+        const { data: sales, error } = await query;
+        if (error) throw error;
+
+        for (const sale of sales || []) {
+          lastSaleAt = sale.sold_at;
+          const price = Number(sale.price_eth);
+          if (!ETH_CURRENCIES.includes(sale.currency) || price < BIG_SALE_THRESHOLD_ETH) continue;
+
+          notifications.push({
+            embed: {
+              title: `Big Sale: ${nftType} Seed #${sale.token_id}`,
+              description: `Sold for **${price.toFixed(4)} ${sale.currency}** (${Number(sale.staking_points).toLocaleString()} points)`,
+              url: SITE_URL ? seedUrl(nftType, sale.token_id, null) : sale.opensea_url ?? undefined,
+              color: BIG_SALE_COLOR,
+              thumbnail: sale.image_url ? { url: sale.image_url } : undefined,
+              timestamp: sale.sold_at,
+            },
+            progress: { last_sale_at: sale.sold_at },
+          });
+        }
+      } else {
+        // Baseline: start from the newest stored sale
+        const { data: latest } = await supabase
+          .from('sales')
+          .select('sold_at')
+          .eq('collection_slug', slug)
+          .order('sold_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        lastSaleAt = latest?.sold_at ?? new Date().toISOString();
+      }
+
+      // Notifications always compare against a previous state
+      if (previous && notifications.length > 0) {
+        if (WEBHOOK_URL) {
+          // Throws on a failed message; the messages before it stay saved
+          await postNotifications(supabase, { ...previous }, notifications);
+          notificationCount += notifications.length;
+          console.log(`[Discord] ${nftType}: posted ${notifications.length} notifications`);
+        } else {
+          console.warn(`[Discord] DISCORD_WEBHOOK_URL not set, skipping ${notifications.length} notifications`);
+        }
+      }
+
+      // Also moves past listings and sales that weren't worth a notification
+      await saveState(supabase, { collection_slug: slug, ...bestDealState, last_sale_at: lastSaleAt });
+
+      console.log(`[Discord] ${nftType}: best deal ${best ? `#${best.tokenId}` : '-'}${bestIsNew ? ' (new)' : ''}`);
+    }
+
+    return new Response(JSON.stringify({ ok: true, notifications: notificationCount }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[Discord] Error:', error);
+    return new Response(
+      JSON.stringify({ ok: false, error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
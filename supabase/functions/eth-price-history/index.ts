@@ -0,0 +1,118 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+/**
+ * Daily ETH/USD series stored in eth_price_history.
+ *
+ * POST { from?: 'YYYY-MM-DD', to?: 'YYYY-MM-DD' } returns { prices: [{ day, price }] }.
+ * Missing days up to yesterday are backfilled from CoinGecko first. Only closed
+ * days are stored; the daily cron sends { sync: true } to do only that and to
+ * rewrite yesterday with its close.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// CoinGecko's free tier serves at most 365 days of daily history
+const MAX_BACKFILL_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDay(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+/**
+ * Daily closes for the last `days` days; CoinGecko's last point is the current price
+ */
+async function fetchDailyPrices(days: number): Promise<{ day: string; price_usd: number }[]> {
+  const res = await fetch(
+    `https://api.coingecko.com/api/v3/coins/ethereum/market_chart?vs_currency=usd&days=${days}&interval=daily`
+  );
+  if (!res.ok) throw new Error(`CoinGecko error: ${res.status}`);
+
+  const data = await res.json();
+  const byDay = new Map<string, number>();
+  for (const [ms, price] of (data?.prices || []) as [number, number][]) {
+    if (typeof price === 'number' && price > 0) byDay.set(toDay(ms), price);
+  }
+
+  return Array.from(byDay, ([day, price_usd]) => ({ day, price_usd }));
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    // --- Backfill ---
+    const { data: latest, error: latestError } = await supabase
+      .from('eth_price_history')
+      .select('day')
+      .order('day', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (latestError) throw latestError;
+
+    const today = toDay(Date.now());
+    const yesterday = toDay(Date.now() - DAY_MS);
+    let synced = 0;
+
+    if (!latest || latest.day < yesterday || body?.sync) {
+      const missingDays = latest
+        ? Math.ceil((Date.now() - new Date(latest.day).getTime()) / DAY_MS)
+        : MAX_BACKFILL_DAYS;
+
+      try {
+        // Today's point is the live price, not a close
+        const rows = (await fetchDailyPrices(Math.min(missingDays + 1, MAX_BACKFILL_DAYS)))
+          .filter((r) => r.day < today);
+        const { error } = await supabase
+          .from('eth_price_history')
+          .upsert(rows.map((r) => ({ ...r, updated_at: new Date().toISOString() })), { onConflict: 'day' });
+        if (error) throw error;
+        synced = rows.length;
+        console.log(`[ETH History] Stored ${synced} days`);
+      } catch (error) {
+        // Serve what is stored; the next call retries
+        console.error('[ETH History] Backfill failed:', error);
+      }
+    }
+
+    if (body?.sync) {
+      return new Response(JSON.stringify({ ok: true, synced }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // --- Read ---
+    let query = supabase
+      .from('eth_price_history')
+      .select('day, price_usd')
+      .order('day', { ascending: true });
+    if (typeof body?.from === 'string') query = query.gte('day', body.from);
+    if (typeof body?.to === 'string') query = query.lte('day', body.to);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const prices = (data || []).map((row) => ({ day: row.day, price: Number(row.price_usd) }));
+
+    return new Response(JSON.stringify({ prices }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[ETH History] Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
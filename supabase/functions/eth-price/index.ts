@@ -1,25 +1,104 @@
-Deno.serve(async (req) => {
-  const corsHeaders = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  };
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Payment token symbol → CoinGecko id
+const COINGECKO_IDS: Record<string, string> = {
+  ETH: 'ethereum',
+  WETH: 'weth',
+  USDC: 'usd-coin',
+  USDT: 'tether',
+  DAI: 'dai',
+  APE: 'apecoin',
+  BLUR: 'blur',
+  MATIC: 'matic-network',
+  POL: 'polygon-ecosystem-token',
+};
+
+const DEFAULT_SYMBOLS = ['ETH', 'WETH', 'USDC', 'USDT', 'DAI'];
 
+const FALLBACK_RATES: Record<string, number> = { ETH: 2500, WETH: 2500, USDC: 1, USDT: 1, DAI: 1 };
+
+// Fiat currencies the app can display; keep in sync with FIAT_CURRENCIES in src/utils/fiat.ts
+const FIAT_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD'];
+
+/**
+ * Currencies recorded in the sales ledger
+ */
+async function fetchSaleCurrencies(): Promise<string[]> {
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+    const { data, error } = await supabase
+      .from('sales')
+      .select('currency')
+      .order('sold_at', { ascending: false })
+      .limit(1000);
+    if (error) throw error;
+    return (data || []).map((row) => row.currency);
+  } catch (error) {
+    console.warn('[ETH Price] Could not read sale currencies:', error);
+    return [];
+  }
+}
+
+Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
+    // Callers may ask for extra symbols seen in listings
+    const body = await req.json().catch(() => ({}));
+    const requested: string[] = Array.isArray(body?.symbols) ? body.symbols : [];
+
+    const symbols = Array.from(new Set(
+      [...DEFAULT_SYMBOLS, ...requested, ...(await fetchSaleCurrencies())]
+        .filter((s): s is string => typeof s === 'string')
+        .map((s) => s.toUpperCase())
+    ));
+    const ids = Array.from(new Set(symbols.map((s) => COINGECKO_IDS[s]).filter(Boolean)));
+
+    const vsCurrencies = FIAT_CURRENCIES.map((c) => c.toLowerCase()).join(',');
     const res = await fetch(
-      'https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd'
+      `https://api.coingecko.com/api/v3/simple/price?ids=${ids.join(',')}&vs_currencies=${vsCurrencies}`
     );
     const data = await res.json();
-    const price = data?.ethereum?.usd || 2500;
 
-    return new Response(JSON.stringify({ price }), {
+    const rates: Record<string, number> = {};
+    for (const symbol of symbols) {
+      const usd = data?.[COINGECKO_IDS[symbol]]?.usd;
+      if (typeof usd === 'number') rates[symbol] = usd;
+    }
+    const price = rates.ETH || FALLBACK_RATES.ETH;
+    const unsupported = symbols.filter((s) => rates[s] === undefined);
+
+    // ETH price in each fiat currency
+    const fiat: Record<string, number> = { USD: price };
+    for (const currency of FIAT_CURRENCIES) {
+      const value = data?.ethereum?.[currency.toLowerCase()];
+      if (typeof value === 'number') fiat[currency] = value;
+    }
+
+    return new Response(JSON.stringify({
+      price,
+      rates: { ...FALLBACK_RATES, WETH: price, ...rates, ETH: price },
+      fiat,
+      unsupported,
+    }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   } catch {
-    return new Response(JSON.stringify({ price: 2500 }), {
+    return new Response(JSON.stringify({
+      price: FALLBACK_RATES.ETH,
+      rates: FALLBACK_RATES,
+      fiat: { USD: FALLBACK_RATES.ETH },
+    }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
@@ -1,19 +1,19 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createOpenSeaClient } from '../_shared/opensea.ts';
+import { STAKING_API_BASE } from '../_shared/config.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const OPENSEA_API_BASE = 'https://api.opensea.io/api/v2';
-const OPENSEA_API_KEY = Deno.env.get('OPENSEA_API_KEY') ?? '';
-const STAKING_API_BASE = 'https://staking.youmio.ai/api';
-
 const COLLECTIONS = [
   { nftType: 'Ancient', slug: 'ancientseed' },
   { nftType: 'Mythic', slug: 'mythicseed' },
 ] as const;
 
+const opensea = createOpenSeaClient({ logPrefix: '[Refresh]' });
+
 type NFTType = 'Ancient' | 'Mythic';
 
 interface NFTItem {
@@ -23,37 +23,17 @@ interface NFTItem {
 }
 
 async function fetchAllNFTs(collectionSlug: string): Promise<NFTItem[]> {
-  const allNFTs: NFTItem[] = [];
-  let nextCursor: string | null = null;
-  let pageCount = 0;
-  const maxPages = 50;
-  const limit = 200;
-
-  do {
-    pageCount++;
-    let url = `${OPENSEA_API_BASE}/collection/${collectionSlug}/nfts?limit=${limit}`;
-    if (nextCursor) url += `&next=${nextCursor}`;
-
-    const response = await fetch(url, {
-      headers: { 'Accept': 'application/json', 'X-API-KEY': OPENSEA_API_KEY },
-    });
-
-    if (!response.ok) {
-      console.error(`[Refresh] OpenSea error page ${pageCount}: ${response.status}`);
-      break;
-    }
-
-    const data = await response.json();
-    const nfts = data.nfts || [];
-    allNFTs.push(...nfts.map((n: any) => ({
+  let allNFTs: NFTItem[] = [];
+  try {
+    const nfts = await opensea.getAllCollectionNFTs(collectionSlug);
+    allNFTs = nfts.map((n) => ({
       identifier: n.identifier,
       image_url: n.image_url,
       opensea_url: n.opensea_url,
-    })));
-
-    nextCursor = data.next || null;
-    if (pageCount >= maxPages) break;
-  } while (nextCursor);
+    }));
+  } catch (error) {
+    console.error(`[Refresh] OpenSea error fetching NFTs for ${collectionSlug}:`, error);
+  }
 
   console.log(`[Refresh] Fetched ${allNFTs.length} NFTs for ${collectionSlug}`);
   return allNFTs;
@@ -61,31 +41,15 @@ async function fetchAllNFTs(collectionSlug: string): Promise<NFTItem[]> {
 
 async function fetchListedTokenIds(collectionSlug: string): Promise<Set<string>> {
   const listedIds = new Set<string>();
-  let nextCursor: string | null = null;
-  let pageCount = 0;
-  const maxPages = 20;
-
-  do {
-    pageCount++;
-    let url = `${OPENSEA_API_BASE}/listings/collection/${collectionSlug}/all`;
-    if (nextCursor) url += `?next=${nextCursor}`;
-
-    const response = await fetch(url, {
-      headers: { 'Accept': 'application/json', 'X-API-KEY': OPENSEA_API_KEY },
-    });
-
-    if (!response.ok) break;
-
-    const data = await response.json();
-    const listings = data.listings || [];
+  try {
+    const listings = await opensea.getAllListings(collectionSlug);
     for (const listing of listings) {
       const tokenId = listing.protocol_data?.parameters?.offer?.[0]?.identifierOrCriteria;
       if (tokenId) listedIds.add(tokenId);
     }
-
-    nextCursor = data.next || null;
-    if (pageCount >= maxPages) break;
-  } while (nextCursor);
+  } catch (error) {
+    console.error(`[Refresh] OpenSea error fetching listings for ${collectionSlug}:`, error);
+  }
 
   console.log(`[Refresh] Found ${listedIds.size} listed NFTs for ${collectionSlug}`);
   return listedIds;
@@ -185,10 +149,12 @@ Deno.serve(async (req) => {
   // Check if already running (with a 5-minute timeout guard)
   const { data: existingMeta } = await supabase
     .from('leaderboard_meta')
-    .select('status, last_started_at')
+    .select('status, last_started_at, current_run_id')
     .eq('cache_key', cacheKey)
     .maybeSingle();
 
+  let runId: string | null = existingMeta?.current_run_id ?? null;
+
   // Only check for conflicts on initial call
   if (currentCollection === 0 && currentOffset === 0) {
     if (existingMeta?.status === 'running') {
@@ -204,12 +170,22 @@ Deno.serve(async (req) => {
       console.log('[Refresh] Previous run was stale, restarting...');
     }
 
+    // Open a new run so every chunk snapshots into the same history
+    const { data: run, error: runError } = await supabase
+      .from('leaderboard_runs')
+      .insert({ cache_key: cacheKey })
+      .select('id')
+      .single();
+    if (runError) console.error('[Refresh] Failed to create run:', runError);
+    runId = run?.id ?? null;
+
     // Mark as running
     await supabase.from('leaderboard_meta').upsert({
       cache_key: cacheKey,
       status: 'running',
       last_started_at: new Date().toISOString(),
       last_error: null,
+      current_run_id: runId,
     }, { onConflict: 'cache_key' });
   }
 
@@ -218,6 +194,21 @@ Deno.serve(async (req) => {
     
     if (!collection) {
       // All collections done!
+      // Keep this run's ranks next to the previous run's for the movers view
+      const { error: rankError } = await supabase.rpc('update_leaderboard_ranks', { p_roll: true });
+      if (rankError) console.error('[Refresh] Rank update error:', rankError);
+
+      if (runId) {
+        await supabase
+          .from('leaderboard_runs')
+          .update({ completed_at: new Date().toISOString() })
+          .eq('id', runId);
+      }
+
+      // Accrual rates include the run that just completed
+      const { error: projectionError } = await supabase.rpc('update_points_projections');
+      if (projectionError) console.error('[Refresh] Projection update error:', projectionError);
+
       await supabase.from('leaderboard_meta').upsert({
         cache_key: cacheKey,
         status: 'idle',
@@ -326,6 +317,15 @@ Deno.serve(async (req) => {
         onConflict: 'collection_slug,token_id',
       });
       if (error) console.error('[Refresh] Update error:', error);
+
+      // Record this run's points so history survives the upsert above
+      if (runId) {
+        const snapshots = updates.map((u) => ({ run_id: runId, ...u }));
+        const { error: snapshotError } = await supabase.from('leaderboard_snapshots').upsert(snapshots, {
+          onConflict: 'run_id,collection_slug,token_id',
+        });
+        if (snapshotError) console.error('[Refresh] Snapshot error:', snapshotError);
+      }
     }
 
     console.log(`[Refresh] Updated ${updates.length} ${nftType} entries with points`);
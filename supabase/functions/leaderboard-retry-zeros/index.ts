@@ -1,12 +1,11 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { STAKING_API_BASE } from '../_shared/config.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const STAKING_API_BASE = 'https://staking.youmio.ai/api';
-
 type NFTType = 'Ancient' | 'Mythic';
 
 interface ZeroPointEntry {
@@ -55,7 +54,8 @@ async function fetchPointsWithRetry(tokenId: string, nftType: NFTType, retries =
 
 async function processChunk(
   entries: ZeroPointEntry[],
-  supabase: any
+  supabase: SupabaseClient,
+  runId: string | null
 ): Promise<{ updated: number; stillZero: number }> {
   const concurrency = 15; // Lower concurrency for more reliable results
   let updated = 0;
@@ -81,6 +81,16 @@ async function processChunk(
         if (!error) {
           updated++;
         }
+
+        // Keep the latest run's snapshot in line with the repaired value
+        if (runId) {
+          await supabase
+            .from('leaderboard_snapshots')
+            .update({ points: result.points })
+            .eq('run_id', runId)
+            .eq('collection_slug', result.collection_slug)
+            .eq('token_id', result.token_id);
+        }
       } else {
         stillZero++;
       }
@@ -105,7 +115,7 @@ Deno.serve(async (req) => {
   const supabase = createClient(supabaseUrl, serviceRoleKey);
 
   // Parse request body for chunked processing
-  let body: any = {};
+  let body: { currentOffset?: number } = {};
   try {
     body = await req.json();
   } catch {
@@ -163,11 +173,30 @@ Deno.serve(async (req) => {
 
     console.log(`[RetryZeros] Processing ${zeroEntries.length} entries...`);
 
+    const { data: meta } = await supabase
+      .from('leaderboard_meta')
+      .select('current_run_id')
+      .eq('cache_key', 'leaderboard_v1')
+      .maybeSingle();
+
     // Process the chunk
-    const { updated, stillZero } = await processChunk(zeroEntries as ZeroPointEntry[], supabase);
+    const { updated, stillZero } = await processChunk(
+      zeroEntries as ZeroPointEntry[],
+      supabase,
+      meta?.current_run_id ?? null
+    );
 
     console.log(`[RetryZeros] Updated ${updated} entries, ${stillZero} still at 0`);
 
+    // Repaired seeds enter the ranking and get an accrual rate
+    if (updated > 0) {
+      const { error: rankError } = await supabase.rpc('update_leaderboard_ranks');
+      if (rankError) console.error('[RetryZeros] Rank update error:', rankError);
+
+      const { error: projectionError } = await supabase.rpc('update_points_projections');
+      if (projectionError) console.error('[RetryZeros] Projection update error:', projectionError);
+    }
+
     // Check remaining zeros
     const { count: remainingZeros } = await supabase
       .from('leaderboard_entries')
@@ -0,0 +1,208 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const CACHE_KEY = 'leaderboard_v1';
+const TOTAL_NFTS = 6332; // Ancient: 777, Mythic: 5555
+const REFRESH_INTERVAL_HOURS = Number(Deno.env.get('LEADERBOARD_REFRESH_INTERVAL_HOURS') ?? '6');
+const TICK_LOCK_MS = 3 * 60 * 1000; // A tick never legitimately runs longer than this
+const MAX_ZERO_REPAIR_ITERATIONS = 12;
+const MAX_ZERO_REPAIR_STALLS = 2;
+
+type Phase = 'idle' | 'refresh' | 'retry_zeros';
+
+interface SchedulerMeta {
+  phase: Phase;
+  next_collection: number;
+  next_offset: number;
+  remaining_zeros: number | null;
+  zero_repair_iterations: number;
+  zero_repair_stalls: number;
+  tick_started_at: string | null;
+  last_completed_at: string | null;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function callFunction(name: string, body: unknown): Promise<{ status: number; data: Record<string, unknown> }> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  const res = await fetch(`${supabaseUrl}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${serviceRoleKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await res.json().catch(() => ({}));
+  return { status: res.status, data };
+}
+
+function isRefreshDue(meta: SchedulerMeta | null): boolean {
+  if (!meta?.last_completed_at) return true;
+  const age = Date.now() - new Date(meta.last_completed_at).getTime();
+  return age >= REFRESH_INTERVAL_HOURS * 60 * 60 * 1000;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  // { start: true } requests a run now; an empty body is a cron tick
+  let body: { start?: boolean } = {};
+  try {
+    body = await req.json();
+  } catch {
+    // Empty body is fine for cron ticks
+  }
+
+  const saveMeta = (fields: Record<string, unknown>) =>
+    supabase.from('leaderboard_meta').upsert({ cache_key: CACHE_KEY, ...fields }, { onConflict: 'cache_key' });
+
+  // Only the tick holding the lock may release it
+  let lockHeld = false;
+
+  try {
+    const { data: meta } = await supabase
+      .from('leaderboard_meta')
+      .select('phase, next_collection, next_offset, remaining_zeros, zero_repair_iterations, zero_repair_stalls, tick_started_at, last_completed_at')
+      .eq('cache_key', CACHE_KEY)
+      .maybeSingle<SchedulerMeta>();
+
+    let phase: Phase = meta?.phase ?? 'idle';
+
+    if (phase === 'idle') {
+      if (!body.start && !isRefreshDue(meta)) {
+        return json({ ok: true, phase, message: 'Nothing to do' });
+      }
+
+      // Start a new run from the beginning of the chunk protocol
+      await saveMeta({
+        phase: 'refresh',
+        next_collection: 0,
+        next_offset: 0,
+        processed_total: 0,
+        progress_message: 'Starting...',
+        remaining_zeros: null,
+        zero_repair_iterations: 0,
+        zero_repair_stalls: 0,
+      });
+
+      // Manual requests return immediately; the next tick does the work
+      if (body.start) {
+        console.log('[Scheduler] Refresh requested');
+        return json({ ok: true, phase: 'refresh', message: 'Refresh scheduled' });
+      }
+      phase = 'refresh';
+    } else if (body.start) {
+      return json({ ok: true, phase, message: 'Refresh already in progress' });
+    }
+
+    // Take the tick lock in one conditional update: of two overlapping ticks
+    // only one matches the row, so a reader can't race between check and write
+    const lockExpiredBefore = new Date(Date.now() - TICK_LOCK_MS).toISOString();
+    const { data: locked, error: lockError } = await supabase
+      .from('leaderboard_meta')
+      .update({ tick_started_at: new Date().toISOString() })
+      .eq('cache_key', CACHE_KEY)
+      .or(`tick_started_at.is.null,tick_started_at.lt."${lockExpiredBefore}"`)
+      .select('cache_key');
+    if (lockError) throw lockError;
+    if (!locked?.length) {
+      return json({ ok: true, phase, message: 'Previous tick still running' });
+    }
+    lockHeld = true;
+
+    if (phase === 'refresh') {
+      const currentCollection = meta?.phase === 'refresh' ? meta.next_collection : 0;
+      const currentOffset = meta?.phase === 'refresh' ? meta.next_offset : 0;
+      console.log(`[Scheduler] Refresh step: collection ${currentCollection}, offset ${currentOffset}`);
+
+      const { status, data } = await callFunction('leaderboard-refresh', { currentCollection, currentOffset });
+
+      if (status === 409) {
+        await saveMeta({ tick_started_at: null });
+        return json({ ok: true, phase, message: 'Refresh already running elsewhere' });
+      }
+
+      if (status !== 200 || !data.ok) {
+        await saveMeta({
+          phase: 'idle',
+          progress_message: null,
+          tick_started_at: null,
+        });
+        console.error('[Scheduler] Refresh step failed:', data);
+        return json({ ok: false, phase: 'idle', error: 'Refresh step failed' }, 500);
+      }
+
+      if (data.completed) {
+        await saveMeta({
+          phase: 'retry_zeros',
+          processed_total: TOTAL_NFTS,
+          progress_message: 'Checking missing points…',
+          tick_started_at: null,
+        });
+        return json({ ok: true, phase: 'retry_zeros', message: 'Refresh complete, repairing zeros next' });
+      }
+
+      await saveMeta({
+        next_collection: data.nextCollection,
+        next_offset: data.nextOffset ?? 0,
+        processed_total: data.processedTotal ?? 0,
+        progress_message: data.message ?? null,
+        tick_started_at: null,
+      });
+      return json({ ok: true, phase, message: data.message });
+    }
+
+    // phase === 'retry_zeros'
+    const { status, data } = await callFunction('leaderboard-retry-zeros', {});
+    const iterations = (meta?.zero_repair_iterations ?? 0) + 1;
+
+    if (status !== 200 || !data.ok) {
+      await saveMeta({ phase: 'idle', progress_message: null, tick_started_at: null });
+      console.error('[Scheduler] Zero repair failed:', data);
+      return json({ ok: false, phase: 'idle', error: 'Zero repair failed' }, 500);
+    }
+
+    const remaining = typeof data.remainingZeros === 'number' ? data.remainingZeros : 0;
+    const previous = meta?.remaining_zeros ?? null;
+    const stalls = previous !== null && remaining >= previous ? (meta?.zero_repair_stalls ?? 0) + 1 : 0;
+    const done = Boolean(data.completed)
+      || iterations >= MAX_ZERO_REPAIR_ITERATIONS
+      || stalls >= MAX_ZERO_REPAIR_STALLS;
+
+    console.log(`[Scheduler] Zero repair ${iterations}: ${remaining} remaining${done ? ' (done)' : ''}`);
+
+    await saveMeta({
+      phase: done ? 'idle' : 'retry_zeros',
+      remaining_zeros: remaining,
+      zero_repair_iterations: iterations,
+      zero_repair_stalls: stalls,
+      progress_message: done ? null : (data.message ?? null),
+      tick_started_at: null,
+    });
+
+    return json({ ok: true, phase: done ? 'idle' : 'retry_zeros', remainingZeros: remaining });
+  } catch (error) {
+    console.error('[Scheduler] Error:', error);
+    if (lockHeld) await saveMeta({ tick_started_at: null });
+    return json({ ok: false, error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
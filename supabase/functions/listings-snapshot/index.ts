@@ -0,0 +1,117 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createOpenSeaClient } from '../_shared/opensea.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const COLLECTIONS = [
+  { nftType: 'Ancient', slug: 'ancientseed' },
+  { nftType: 'Mythic', slug: 'mythicseed' },
+] as const;
+
+const opensea = createOpenSeaClient({ logPrefix: '[Snapshot]' });
+
+// Listings priced 1:1 with ETH
+const ETH_CURRENCIES = ['ETH', 'WETH'];
+
+// Keep in sync with POINTS_TIERS in src/utils/market.ts
+const POINTS_TIERS = [1_000, 5_000, 10_000, 25_000, 50_000, 100_000];
+
+/**
+ * Lowest listing price in ETH per token (duplicates keep the cheapest)
+ */
+async function fetchLowestPrices(collectionSlug: string): Promise<Map<string, number>> {
+  const prices = new Map<string, number>();
+  const listings = await opensea.getAllListings(collectionSlug);
+
+  for (const listing of listings) {
+    const tokenId = listing.protocol_data?.parameters?.offer?.[0]?.identifierOrCriteria;
+    const current = listing.price?.current;
+    if (!tokenId || !current?.value) continue;
+    // Other tokens have no fixed ETH price; skip rather than misread their decimals
+    if (!ETH_CURRENCIES.includes((current.currency || 'ETH').toUpperCase())) continue;
+
+    const price = parseFloat(current.value) / Math.pow(10, current.decimals ?? 18);
+    const existing = prices.get(tokenId);
+    if (existing === undefined || price < existing) prices.set(tokenId, price);
+  }
+
+  return prices;
+}
+
+function median(sorted: number[]): number | null {
+  if (sorted.length === 0) return null;
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  try {
+    const snapshots = [];
+
+    for (const { nftType, slug } of COLLECTIONS) {
+      const prices = await fetchLowestPrices(slug);
+      const tokenIds = [...prices.keys()];
+
+      // Points come from the leaderboard cache instead of one staking call per token
+      const pointsById = new Map<string, number>();
+      const batchSize = 500;
+      for (let i = 0; i < tokenIds.length; i += batchSize) {
+        const { data: entries, error } = await supabase
+          .from('leaderboard_entries')
+          .select('token_id, points')
+          .eq('collection_slug', slug)
+          .in('token_id', tokenIds.slice(i, i + batchSize));
+
+        if (error) throw error;
+        for (const e of entries || []) pointsById.set(e.token_id, Number(e.points));
+      }
+
+      const listed = tokenIds
+        .map((tokenId) => ({ price: prices.get(tokenId)!, points: pointsById.get(tokenId) ?? 0 }))
+        .filter((l) => l.price > 0)
+        .sort((a, b) => a.price - b.price);
+      const sortedPrices = listed.map((l) => l.price);
+
+      const tierFloors: Record<string, number> = {};
+      for (const tier of POINTS_TIERS) {
+        const cheapest = listed.find((l) => l.points >= tier);
+        if (cheapest) tierFloors[tier] = cheapest.price;
+      }
+
+      snapshots.push({
+        collection_slug: slug,
+        nft_type: nftType,
+        floor_eth: sortedPrices[0] ?? null,
+        median_eth: median(sortedPrices),
+        listing_count: prices.size,
+        tier_floors: tierFloors,
+      });
+
+      console.log(`[Snapshot] ${nftType}: ${prices.size} listings, floor ${sortedPrices[0] ?? '-'} ETH`);
+    }
+
+    const { error } = await supabase.from('listing_snapshots').insert(snapshots);
+    if (error) throw error;
+
+    return new Response(JSON.stringify({ ok: true, snapshots }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[Snapshot] Error:', error);
+    return new Response(
+      JSON.stringify({ ok: false, error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
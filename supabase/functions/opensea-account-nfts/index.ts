@@ -0,0 +1,76 @@
+import { createOpenSeaClient } from '../_shared/opensea.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+const opensea = createOpenSeaClient({ logPrefix: '[Account NFTs]' });
+
+const COLLECTIONS = [
+  { nftType: 'Ancient', slug: 'ancientseed' },
+  { nftType: 'Mythic', slug: 'mythicseed' },
+] as const;
+
+interface AccountNFT {
+  nftType: string;
+  tokenId: string;
+  name: string | null;
+  imageUrl: string | null;
+  openseaUrl: string | null;
+}
+
+function isValidAddress(value: unknown): value is string {
+  return typeof value === 'string' && /^0x[0-9a-fA-F]{40}$/.test(value);
+}
+
+async function fetchAccountCollection(address: string, slug: string, nftType: string): Promise<AccountNFT[]> {
+  const nfts = await opensea.getAllAccountNFTs(address, slug, { partial: false });
+
+  return nfts
+    .filter((n) => n.identifier)
+    .map((n) => ({
+      nftType,
+      tokenId: n.identifier,
+      name: n.name ?? null,
+      imageUrl: n.display_image_url ?? n.image_url ?? null,
+      openseaUrl: n.opensea_url ?? null,
+    }));
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { address } = await req.json();
+
+    if (!isValidAddress(address)) {
+      return new Response(
+        JSON.stringify({ error: 'A valid Ethereum address (0x…) is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`[Account NFTs] Fetching seeds held by ${address}`);
+
+    const results = await Promise.all(
+      COLLECTIONS.map(({ slug, nftType }) => fetchAccountCollection(address, slug, nftType))
+    );
+    const nfts = results.flat();
+
+    console.log(`[Account NFTs] ${address} holds ${nfts.length} seeds`);
+
+    return new Response(
+      JSON.stringify({ nfts }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('[Account NFTs] Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
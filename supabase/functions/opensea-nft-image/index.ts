@@ -1,10 +1,12 @@
+import { OpenSeaApiError, createOpenSeaClient } from '../_shared/opensea.ts';
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
 };
 
-const OPENSEA_API_BASE = 'https://api.opensea.io/api/v2';
-const API_KEY = 'fdae3233ff1545ab8d5d7041e90ed89a';
+// Image lookups are per card, so fail fast instead of retrying for long
+const opensea = createOpenSeaClient({ logPrefix: '[NFT Image]', maxRetries: 2, timeoutMs: 10000 });
 
 Deno.serve(async (req) => {
   // Handle CORS preflight
@@ -28,32 +30,8 @@ Deno.serve(async (req) => {
 
     console.log(`[NFT Image] Fetching image for token ${tokenId}`);
     
-    const url = `${OPENSEA_API_BASE}/chain/ethereum/contract/${contractAddress}/nfts/${tokenId}`;
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-    
-    const response = await fetch(url, {
-      headers: {
-        'Accept': 'application/json',
-        'X-API-KEY': API_KEY,
-      },
-      signal: controller.signal,
-    });
-    
-    clearTimeout(timeout);
-
-    if (!response.ok) {
-      console.warn(`[NFT Image] API returned ${response.status} for token ${tokenId}`);
-      return new Response(
-        JSON.stringify({ imageUrl: null }),
-        { 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      );
-    }
-
-    const data = await response.json();
-    const imageUrl = data.nft?.image_url || data.nft?.display_image_url || null;
+    const nft = await opensea.getNFT(contractAddress, tokenId);
+    const imageUrl = nft?.image_url || nft?.display_image_url || null;
     
     if (imageUrl) {
       console.log(`[NFT Image] ✅ Found image for token ${tokenId}`);
@@ -68,8 +46,7 @@ Deno.serve(async (req) => {
       }
     );
   } catch (error) {
-    const errorObj = error as Error;
-    if (errorObj.name === 'AbortError') {
+    if (error instanceof OpenSeaApiError && error.status === 408) {
       console.error('[NFT Image] Request timeout');
       return new Response(
         JSON.stringify({ imageUrl: null, error: 'Timeout' }),
@@ -79,12 +56,22 @@ Deno.serve(async (req) => {
         }
       );
     }
+
+    if (error instanceof OpenSeaApiError) {
+      console.warn(`[NFT Image] API returned ${error.status}`);
+      return new Response(
+        JSON.stringify({ imageUrl: null }),
+        { 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      );
+    }
     
     console.error('[NFT Image] Error:', error);
     return new Response(
       JSON.stringify({ 
         imageUrl: null,
-        error: errorObj.message || 'Unknown error' 
+        error: error instanceof Error ? error.message : 'Unknown error' 
       }),
       { 
         status: 500, 
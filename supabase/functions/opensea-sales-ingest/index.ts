@@ -0,0 +1,236 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { OpenSeaEvent, createOpenSeaClient } from '../_shared/opensea.ts';
+import { STAKING_API_BASE } from '../_shared/config.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+const COLLECTIONS = [
+  { nftType: 'Ancient', slug: 'ancientseed' },
+  { nftType: 'Mythic', slug: 'mythicseed' },
+] as const;
+
+const opensea = createOpenSeaClient({ logPrefix: '[Sales Ingest]' });
+
+interface SaleRow {
+  transaction_hash: string;
+  token_id: string;
+  collection_slug: string;
+  nft_type: string;
+  name: string | null;
+  image_url: string | null;
+  opensea_url: string | null;
+  price_eth: number;
+  currency: string;
+  payment_quantity: string | null;
+  payment_decimals: number | null;
+  seller: string | null;
+  buyer: string | null;
+  staking_points: number;
+  sold_at: string;
+}
+
+async function fetchPoints(tokenId: string, nftType: string): Promise<number> {
+  try {
+    const res = await fetch(`${STAKING_API_BASE}/seeds/points?id=${tokenId}&type=${nftType}`);
+    if (!res.ok) return 0;
+    const data = await res.json();
+    return data.points ?? data.totalPoints ?? data.stakingPoints ?? 0;
+  } catch {
+    return 0;
+  }
+}
+
+function toSaleRow(e: OpenSeaEvent, slug: string, nftType: string): SaleRow | null {
+  const tokenId = e.nft?.identifier;
+  if (!tokenId || !e.transaction) return null;
+
+  const decimals = e.payment?.decimals ?? 18;
+  const quantity = e.payment?.quantity ?? '0';
+  const timestamp = e.event_timestamp ?? e.closing_date ?? 0;
+
+  return {
+    transaction_hash: e.transaction,
+    token_id: tokenId,
+    collection_slug: slug,
+    nft_type: nftType,
+    name: e.nft?.name ?? null,
+    image_url: e.nft?.display_image_url ?? e.nft?.image_url ?? null,
+    opensea_url: e.nft?.opensea_url ?? null,
+    price_eth: parseFloat(quantity) / Math.pow(10, decimals),
+    currency: e.payment?.symbol ?? 'ETH',
+    payment_quantity: e.payment?.quantity ?? null,
+    payment_decimals: e.payment?.decimals ?? null,
+    seller: e.seller ?? null,
+    buyer: e.buyer ?? null,
+    staking_points: 0,
+    sold_at: new Date(timestamp * 1000).toISOString(),
+  };
+}
+
+// Pages per run; an unfinished pass resumes from its cursor on the next run
+const MAX_PAGES = 200;
+const PAGE_LIMIT = 50;
+
+// Row of sales_ingest_state
+interface IngestState {
+  next_cursor: string | null;
+  pass_newest_at: string | null;
+  synced_until: string | null;
+}
+
+interface IngestResult {
+  inserted: number;
+  pages: number;
+  // False when the page cap was hit and the pass continues next run
+  complete: boolean;
+}
+
+/**
+ * Page sale events newest → oldest, resuming an unfinished pass from its saved
+ * cursor. Until the first pass (the backfill) reaches the oldest event every
+ * page is read; after that a pass stops at the first sale older than
+ * synced_until, which everything before is known to be stored up to.
+ * Progress is saved after each page, and a failed page throws.
+ */
+async function ingestCollection(
+  supabase: SupabaseClient,
+  slug: string,
+  nftType: string
+): Promise<IngestResult> {
+  const { data: saved, error: stateError } = await supabase
+    .from('sales_ingest_state')
+    .select('next_cursor, pass_newest_at, synced_until')
+    .eq('collection_slug', slug)
+    .maybeSingle();
+  if (stateError) throw stateError;
+
+  const state: IngestState = saved ?? { next_cursor: null, pass_newest_at: null, synced_until: null };
+  const boundary = state.synced_until ? new Date(state.synced_until).getTime() : null;
+
+  const saveState = async () => {
+    const { error } = await supabase
+      .from('sales_ingest_state')
+      .upsert({ collection_slug: slug, ...state, updated_at: new Date().toISOString() }, { onConflict: 'collection_slug' });
+    if (error) throw error;
+  };
+
+  let pageCount = 0;
+  let inserted = 0;
+
+  while (pageCount < MAX_PAGES) {
+    pageCount++;
+    const startsPass = !state.next_cursor;
+    const page = await opensea.getCollectionEventsPage(slug, { limit: PAGE_LIMIT, next: state.next_cursor });
+
+    const rows = page.items
+      .map((e) => toSaleRow(e, slug, nftType))
+      .filter((r): r is SaleRow => r !== null);
+
+    if (rows.length > 0) {
+      // Which of these are already in the ledger?
+      const { data: existing, error: existingError } = await supabase
+        .from('sales')
+        .select('transaction_hash, token_id')
+        .in('transaction_hash', rows.map((r) => r.transaction_hash));
+
+      if (existingError) throw existingError;
+
+      const known = new Set((existing || []).map((e) => `${e.transaction_hash}:${e.token_id}`));
+      const fresh = rows.filter((r) => !known.has(`${r.transaction_hash}:${r.token_id}`));
+
+      if (fresh.length > 0) {
+        const points = await Promise.all(fresh.map((r) => fetchPoints(r.token_id, nftType)));
+        fresh.forEach((r, i) => { r.staking_points = points[i]; });
+
+        const { error } = await supabase.from('sales').upsert(fresh, {
+          onConflict: 'transaction_hash,token_id',
+          ignoreDuplicates: true,
+        });
+        if (error) throw error;
+        inserted += fresh.length;
+      }
+
+      console.log(`[Sales Ingest] ${slug} page ${pageCount}: ${fresh.length}/${rows.length} new`);
+    }
+
+    // The newest sale of a pass is what it has synced up to once it completes
+    if (startsPass) {
+      state.pass_newest_at = rows.reduce<string | null>((newest, r) => (!newest || r.sold_at > newest ? r.sold_at : newest), null);
+    }
+
+    const reachedSynced = boundary !== null && rows.some((r) => new Date(r.sold_at).getTime() < boundary);
+    if (reachedSynced || !page.next) {
+      state.synced_until = state.pass_newest_at ?? state.synced_until;
+      state.next_cursor = null;
+      state.pass_newest_at = null;
+      await saveState();
+      return { inserted, pages: pageCount, complete: true };
+    }
+
+    state.next_cursor = page.next;
+    await saveState();
+  }
+
+  console.log(`[Sales Ingest] Reached max pages limit (${MAX_PAGES}) for ${slug}, continuing next run`);
+  return { inserted, pages: pageCount, complete: false };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  // Optional { collectionSlug } limits ingestion to one collection
+  let body: { collectionSlug?: string } = {};
+  try {
+    body = await req.json();
+  } catch {
+    // Empty body ingests every collection
+  }
+
+  try {
+    const targets = body.collectionSlug
+      ? COLLECTIONS.filter((c) => c.slug === body.collectionSlug)
+      : COLLECTIONS;
+
+    if (targets.length === 0) {
+      return new Response(
+        JSON.stringify({ error: `Unknown collection: ${body.collectionSlug}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // A failed collection doesn't stop the others, but fails the run
+    const results: Record<string, IngestResult> = {};
+    const errors: Record<string, string> = {};
+    for (const { slug, nftType } of targets) {
+      try {
+        results[slug] = await ingestCollection(supabase, slug, nftType);
+      } catch (error) {
+        console.error(`[Sales Ingest] ${slug} failed:`, error);
+        errors[slug] = error instanceof Error ? error.message : 'Unknown error';
+      }
+    }
+
+    const ok = Object.keys(errors).length === 0;
+    console.log(`[Sales Ingest] Done${ok ? '' : ' with errors'}:`, results);
+
+    return new Response(
+      JSON.stringify(ok ? { ok, results } : { ok, results, errors }),
+      { status: ok ? 200 : 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('[Sales Ingest] Error:', error);
+    return new Response(
+      JSON.stringify({ ok: false, error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,11 +1,12 @@
+import { OpenSeaApiError, createOpenSeaClient } from '../_shared/opensea.ts';
+import { STAKING_API_BASE } from '../_shared/config.ts';
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
 };
 
-const OPENSEA_API_BASE = 'https://api.opensea.io/api/v2';
-const STAKING_API_BASE = 'https://staking.youmio.ai/api';
-const API_KEY = Deno.env.get('OPENSEA_API_KEY') || '';
+const opensea = createOpenSeaClient({ logPrefix: '[OpenSea Sales]' });
 
 async function fetchPoints(tokenId: string, nftType: string): Promise<number> {
   try {
@@ -24,7 +25,7 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const { collectionSlug, nftType, limit = 30 } = await req.json();
+    const { collectionSlug, nftType, limit = 30, contractAddress, tokenId } = await req.json();
     if (!collectionSlug || !nftType) {
       return new Response(
         JSON.stringify({ error: 'collectionSlug and nftType are required' }),
@@ -32,27 +33,26 @@ Deno.serve(async (req) => {
       );
     }
 
-    console.log(`[OpenSea Sales] Fetching sales for ${collectionSlug}`);
-
-    const url = `${OPENSEA_API_BASE}/events/collection/${collectionSlug}?event_type=sale&limit=${limit}`;
-    const res = await fetch(url, {
-      headers: { 'Accept': 'application/json', 'X-API-KEY': API_KEY },
-    });
+    console.log(`[OpenSea Sales] Fetching sales for ${collectionSlug}${tokenId ? ` #${tokenId}` : ''}`);
 
-    if (!res.ok) {
-      const errText = await res.text();
-      console.error(`[OpenSea Sales] API error ${res.status}:`, errText);
+    // A single seed's sales when contractAddress + tokenId are given, otherwise the whole collection
+    let events;
+    try {
+      const page = contractAddress && tokenId
+        ? await opensea.getNFTEventsPage(contractAddress, tokenId, { limit })
+        : await opensea.getCollectionEventsPage(collectionSlug, { limit });
+      events = page.items;
+    } catch (error) {
+      if (!(error instanceof OpenSeaApiError)) throw error;
+      console.error(`[OpenSea Sales] API error ${error.status}:`, error.details);
       return new Response(
-        JSON.stringify({ error: `OpenSea API error: ${res.status}`, details: errText }),
-        { status: res.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: error.message, details: error.details }),
+        { status: error.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const data = await res.json();
-    const events = data.asset_events || [];
-
     // Map basic sale info
-    const sales = events.map((e: any) => {
+    const sales = events.map((e) => {
       const decimals = e.payment?.decimals ?? 18;
       const quantity = e.payment?.quantity ?? '0';
       const priceEth = parseFloat(quantity) / Math.pow(10, decimals);
@@ -1,12 +1,18 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { STAKING_API_BASE } from '../_shared/config.ts';
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const STAKING_API_BASE = 'https://staking.youmio.ai/api';
-
 type NFTType = 'Mythic' | 'Ancient';
 
+const COLLECTION_SLUGS: Record<NFTType, string> = {
+  Mythic: 'mythicseed',
+  Ancient: 'ancientseed',
+};
+
 function isValidTokenId(value: unknown): value is string {
   return typeof value === 'string' && value.length > 0 && value.length <= 20 && /^[0-9]+$/.test(value);
 }
@@ -47,6 +53,56 @@ async function asyncPool<T, R>(poolLimit: number, array: T[], iteratorFn: (item:
   return Promise.all(ret);
 }
 
+// Same horizon as update_points_projections
+const PROJECTION_DAYS = 30;
+
+/**
+ * Write fresh points back to the shared cache read by the app. Only rows the
+ * leaderboard refresh created are updated; zeros are skipped so a failed
+ * lookup can't overwrite stored points. Ranks are recomputed and the 30-day
+ * projection is rebased on the new points with the stored rate.
+ */
+async function writeBackPoints(
+  supabase: SupabaseClient,
+  nftType: NFTType,
+  results: { tokenId: string; points: number }[],
+): Promise<void> {
+  const fresh = results.filter((r) => r.points > 0);
+  if (fresh.length === 0) return;
+
+  const slug = COLLECTION_SLUGS[nftType];
+  const { data: existing, error } = await supabase
+    .from('leaderboard_entries')
+    .select('token_id, points, points_per_day')
+    .eq('collection_slug', slug)
+    .in('token_id', fresh.map((r) => r.tokenId));
+  if (error) throw error;
+
+  const stored = new Map((existing || []).map((row) => [row.token_id as string, row]));
+  const updates = fresh.filter((r) => stored.has(r.tokenId));
+
+  await asyncPool(6, updates, async ({ tokenId, points }) => {
+    const rate = stored.get(tokenId)?.points_per_day;
+    const { error: updateError } = await supabase
+      .from('leaderboard_entries')
+      .update({
+        points,
+        ...(typeof rate === 'number' && { projected_points_30d: Math.round(points + rate * PROJECTION_DAYS) }),
+      })
+      .eq('collection_slug', slug)
+      .eq('token_id', tokenId);
+    if (updateError) console.error(`[StakingBatch] Write-back error for ${tokenId}:`, updateError);
+  });
+
+  const changed = updates.some((r) => Number(stored.get(r.tokenId)?.points) !== r.points);
+  if (changed) {
+    const { error: rankError } = await supabase.rpc('update_leaderboard_ranks');
+    if (rankError) console.error('[StakingBatch] Rank update error:', rankError);
+  }
+
+  console.log(`[StakingBatch] Wrote back ${updates.length}/${fresh.length} tokens${changed ? ', ranks updated' : ''}`);
+}
+
 Deno.serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -83,6 +139,14 @@ Deno.serve(async (req) => {
     const pointsById: Record<string, number> = {};
     for (const r of results) pointsById[r.tokenId] = r.points;
 
+    try {
+      const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+      await writeBackPoints(supabase, nftType, results);
+    } catch (error) {
+      // The live values are still returned
+      console.error('[StakingBatch] Write-back failed:', error);
+    }
+
     return new Response(
       JSON.stringify({ pointsById }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
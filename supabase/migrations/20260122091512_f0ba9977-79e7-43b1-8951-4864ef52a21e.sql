@@ -0,0 +1,45 @@
+-- One row per leaderboard refresh run
+CREATE TABLE IF NOT EXISTS public.leaderboard_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  cache_key text NOT NULL,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS leaderboard_runs_completed_idx ON public.leaderboard_runs (cache_key, completed_at DESC);
+
+-- Points history: one row per token per refresh run
+CREATE TABLE IF NOT EXISTS public.leaderboard_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES public.leaderboard_runs (id) ON DELETE CASCADE,
+  collection_slug text NOT NULL,
+  nft_type text NOT NULL,
+  token_id text NOT NULL,
+  points bigint NOT NULL DEFAULT 0,
+  captured_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (run_id, collection_slug, token_id)
+);
+
+CREATE INDEX IF NOT EXISTS leaderboard_snapshots_token_idx ON public.leaderboard_snapshots (collection_slug, token_id, captured_at DESC);
+
+-- Run currently being written by leaderboard-refresh
+ALTER TABLE public.leaderboard_meta ADD COLUMN IF NOT EXISTS current_run_id uuid REFERENCES public.leaderboard_runs (id) ON DELETE SET NULL;
+
+ALTER TABLE public.leaderboard_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.leaderboard_snapshots ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Leaderboard runs are viewable by everyone"
+  ON public.leaderboard_runs
+  FOR SELECT
+  USING (true);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Leaderboard snapshots are viewable by everyone"
+  ON public.leaderboard_snapshots
+  FOR SELECT
+  USING (true);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+-- No public write policies (writes only via service role in backend)
@@ -0,0 +1,29 @@
+-- Progress of the server-driven refresh (walked by leaderboard-scheduler)
+ALTER TABLE public.leaderboard_meta
+  ADD COLUMN IF NOT EXISTS phase text NOT NULL DEFAULT 'idle',
+  ADD COLUMN IF NOT EXISTS next_collection integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_offset integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS processed_total integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS progress_message text,
+  ADD COLUMN IF NOT EXISTS remaining_zeros integer,
+  ADD COLUMN IF NOT EXISTS zero_repair_iterations integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS zero_repair_stalls integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tick_started_at timestamptz;
+
+-- Advance the refresh by one step every minute
+DO $$ BEGIN
+  PERFORM cron.unschedule('leaderboard-scheduler-tick');
+EXCEPTION WHEN OTHERS THEN NULL; END $$;
+
+SELECT cron.schedule(
+  'leaderboard-scheduler-tick',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://nuidynjgfztvunkgxwbe.supabase.co/functions/v1/leaderboard-scheduler',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb,
+    timeout_milliseconds := 150000
+  ) AS request_id;
+  $$
+);
@@ -0,0 +1,52 @@
+-- Ledger of OpenSea sale events (publicly readable)
+CREATE TABLE IF NOT EXISTS public.sales (
+  transaction_hash text NOT NULL,
+  token_id text NOT NULL,
+  collection_slug text NOT NULL,
+  nft_type text NOT NULL,
+  name text,
+  image_url text,
+  opensea_url text,
+  price_eth double precision NOT NULL DEFAULT 0,
+  currency text NOT NULL DEFAULT 'ETH',
+  payment_quantity text,
+  payment_decimals integer,
+  seller text,
+  buyer text,
+  staking_points bigint NOT NULL DEFAULT 0,
+  sold_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (transaction_hash, token_id)
+);
+
+CREATE INDEX IF NOT EXISTS sales_collection_sold_at_idx ON public.sales (collection_slug, sold_at DESC);
+CREATE INDEX IF NOT EXISTS sales_token_idx ON public.sales (collection_slug, token_id);
+
+ALTER TABLE public.sales ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Sales are viewable by everyone"
+  ON public.sales
+  FOR SELECT
+  USING (true);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+-- No public write policies (writes only via service role in backend)
+
+-- Pull new sales every 10 minutes
+DO $$ BEGIN
+  PERFORM cron.unschedule('opensea-sales-ingest');
+EXCEPTION WHEN OTHERS THEN NULL; END $$;
+
+SELECT cron.schedule(
+  'opensea-sales-ingest',
+  '*/10 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://nuidynjgfztvunkgxwbe.supabase.co/functions/v1/opensea-sales-ingest',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb,
+    timeout_milliseconds := 150000
+  ) AS request_id;
+  $$
+);
@@ -0,0 +1,43 @@
+-- Periodic summary of each collection's listings (publicly readable)
+CREATE TABLE IF NOT EXISTS public.listing_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  collection_slug text NOT NULL,
+  nft_type text NOT NULL,
+  captured_at timestamptz NOT NULL DEFAULT now(),
+  floor_eth double precision,
+  median_eth double precision,
+  listing_count integer NOT NULL DEFAULT 0,
+  -- Cheapest price per points tier, e.g. { "10000": 0.042 }
+  tier_floors jsonb NOT NULL DEFAULT '{}'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS listing_snapshots_collection_idx ON public.listing_snapshots (collection_slug, captured_at DESC);
+
+ALTER TABLE public.listing_snapshots ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Listing snapshots are viewable by everyone"
+  ON public.listing_snapshots
+  FOR SELECT
+  USING (true);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+-- No public write policies (writes only via service role in backend)
+
+-- Snapshot listings every 30 minutes
+DO $$ BEGIN
+  PERFORM cron.unschedule('listings-snapshot');
+EXCEPTION WHEN OTHERS THEN NULL; END $$;
+
+SELECT cron.schedule(
+  'listings-snapshot',
+  '*/30 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://nuidynjgfztvunkgxwbe.supabase.co/functions/v1/listings-snapshot',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb,
+    timeout_milliseconds := 150000
+  ) AS request_id;
+  $$
+);
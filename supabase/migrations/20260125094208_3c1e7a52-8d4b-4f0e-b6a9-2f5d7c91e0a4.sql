@@ -0,0 +1,31 @@
+-- Last state seen by the Discord notifier, one row per collection
+CREATE TABLE IF NOT EXISTS public.discord_notifier_state (
+  collection_slug text PRIMARY KEY,
+  best_deal_token_id text,
+  best_deal_price_eth double precision,
+  best_deal_points bigint,
+  last_sale_at timestamptz,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.discord_notifier_state ENABLE ROW LEVEL SECURITY;
+
+-- No public policies (read and written only via service role in backend)
+
+-- Check for new best deals and big sales every 10 minutes
+DO $$ BEGIN
+  PERFORM cron.unschedule('discord-notifier');
+EXCEPTION WHEN OTHERS THEN NULL; END $$;
+
+SELECT cron.schedule(
+  'discord-notifier',
+  '5-59/10 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://nuidynjgfztvunkgxwbe.supabase.co/functions/v1/discord-notifier',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb,
+    timeout_milliseconds := 150000
+  ) AS request_id;
+  $$
+);
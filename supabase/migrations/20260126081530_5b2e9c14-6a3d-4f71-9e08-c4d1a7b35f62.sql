@@ -0,0 +1,35 @@
+-- Daily ETH/USD closing price, used to value sales at the time they happened
+CREATE TABLE IF NOT EXISTS public.eth_price_history (
+  day date PRIMARY KEY,
+  price_usd double precision NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.eth_price_history ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "ETH price history is viewable by everyone"
+  ON public.eth_price_history
+  FOR SELECT
+  USING (true);
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+-- No public write policies (writes only via service role in backend)
+
+-- Store the previous day's close shortly after midnight UTC
+DO $$ BEGIN
+  PERFORM cron.unschedule('eth-price-history');
+EXCEPTION WHEN OTHERS THEN NULL; END $$;
+
+SELECT cron.schedule(
+  'eth-price-history',
+  '15 0 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://nuidynjgfztvunkgxwbe.supabase.co/functions/v1/eth-price-history',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{"sync": true}'::jsonb,
+    timeout_milliseconds := 60000
+  ) AS request_id;
+  $$
+);
@@ -0,0 +1,80 @@
+-- Server-side leaderboard paging: one filtered page with its ranks and total,
+-- so the client no longer downloads every entry
+CREATE OR REPLACE FUNCTION public.get_leaderboard_page(
+  p_nft_type text DEFAULT NULL,
+  p_listed boolean DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_page integer DEFAULT 1,
+  p_page_size integer DEFAULT 10
+)
+RETURNS TABLE (
+  token_id text,
+  nft_type text,
+  points bigint,
+  image_url text,
+  opensea_url text,
+  is_listed boolean,
+  global_rank bigint,
+  filtered_rank bigint,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH ranked AS (
+    SELECT
+      e.*,
+      row_number() OVER (ORDER BY e.points DESC, e.nft_type, e.token_id) AS global_rank
+    FROM public.leaderboard_entries e
+  ),
+  filtered AS (
+    SELECT
+      r.*,
+      row_number() OVER (ORDER BY r.points DESC, r.nft_type, r.token_id) AS filtered_rank,
+      count(*) OVER () AS total_count
+    FROM ranked r
+    WHERE (p_nft_type IS NULL OR r.nft_type = p_nft_type)
+      AND (p_listed IS NULL OR r.is_listed = p_listed)
+      AND (coalesce(trim(p_search), '') = '' OR r.token_id ILIKE '%' || trim(p_search) || '%')
+  )
+  SELECT
+    f.token_id,
+    f.nft_type,
+    f.points,
+    f.image_url,
+    f.opensea_url,
+    f.is_listed,
+    f.global_rank,
+    f.filtered_rank,
+    f.total_count
+  FROM filtered f
+  ORDER BY f.filtered_rank
+  LIMIT greatest(p_page_size, 1)
+  OFFSET (greatest(p_page, 1) - 1) * greatest(p_page_size, 1);
+$$;
+
+-- Totals per collection for the stats cards
+CREATE OR REPLACE FUNCTION public.get_leaderboard_stats()
+RETURNS TABLE (
+  nft_type text,
+  seed_count bigint,
+  total_points bigint,
+  zero_points_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    e.nft_type,
+    count(*) AS seed_count,
+    coalesce(sum(e.points), 0)::bigint AS total_points,
+    count(*) FILTER (WHERE e.points = 0) AS zero_points_count
+  FROM public.leaderboard_entries e
+  GROUP BY e.nft_type;
+$$;
+
+-- Both run with the caller's rights, so the public read policy still applies
+GRANT EXECUTE ON FUNCTION public.get_leaderboard_page(text, boolean, text, integer, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_leaderboard_stats() TO anon, authenticated;
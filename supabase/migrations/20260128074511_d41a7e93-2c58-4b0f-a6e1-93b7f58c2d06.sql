@@ -0,0 +1,97 @@
+-- Competition ranks (1,2,2,4) stored on each entry when a refresh completes.
+-- Seeds with 0 points are unranked (null).
+ALTER TABLE public.leaderboard_entries
+  ADD COLUMN IF NOT EXISTS global_rank integer,
+  ADD COLUMN IF NOT EXISTS type_rank integer,
+  -- Share of ranked seeds with at least as many points, in percent ("top X%")
+  ADD COLUMN IF NOT EXISTS top_percent double precision;
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_entries_global_rank
+  ON public.leaderboard_entries (global_rank);
+
+CREATE OR REPLACE FUNCTION public.update_leaderboard_ranks()
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.leaderboard_entries
+  SET global_rank = NULL, type_rank = NULL, top_percent = NULL
+  WHERE points <= 0 AND global_rank IS NOT NULL;
+
+  WITH ranked AS (
+    SELECT
+      id,
+      rank() OVER (ORDER BY points DESC)::integer AS global_rank,
+      rank() OVER (PARTITION BY nft_type ORDER BY points DESC)::integer AS type_rank,
+      cume_dist() OVER (ORDER BY points DESC) * 100 AS top_percent
+    FROM public.leaderboard_entries
+    WHERE points > 0
+  )
+  UPDATE public.leaderboard_entries e
+  SET global_rank = r.global_rank, type_rank = r.type_rank, top_percent = r.top_percent
+  FROM ranked r
+  WHERE e.id = r.id
+    AND (e.global_rank, e.type_rank, e.top_percent) IS DISTINCT FROM (r.global_rank, r.type_rank, r.top_percent);
+$$;
+
+-- Called by the refresh functions with the service role only
+REVOKE EXECUTE ON FUNCTION public.update_leaderboard_ranks() FROM PUBLIC, anon, authenticated;
+
+SELECT public.update_leaderboard_ranks();
+
+-- The page now returns the stored ranks; the filtered rank uses the same tie rules
+DROP FUNCTION IF EXISTS public.get_leaderboard_page(text, boolean, text, integer, integer);
+
+CREATE FUNCTION public.get_leaderboard_page(
+  p_nft_type text DEFAULT NULL,
+  p_listed boolean DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_page integer DEFAULT 1,
+  p_page_size integer DEFAULT 10
+)
+RETURNS TABLE (
+  token_id text,
+  nft_type text,
+  points bigint,
+  image_url text,
+  opensea_url text,
+  is_listed boolean,
+  global_rank integer,
+  type_rank integer,
+  top_percent double precision,
+  filtered_rank bigint,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH filtered AS (
+    SELECT
+      e.*,
+      CASE WHEN e.points > 0 THEN rank() OVER (ORDER BY e.points DESC) END AS filtered_rank,
+      count(*) OVER () AS total_count
+    FROM public.leaderboard_entries e
+    WHERE (p_nft_type IS NULL OR e.nft_type = p_nft_type)
+      AND (p_listed IS NULL OR e.is_listed = p_listed)
+      AND (coalesce(trim(p_search), '') = '' OR e.token_id ILIKE '%' || trim(p_search) || '%')
+  )
+  SELECT
+    f.token_id,
+    f.nft_type,
+    f.points,
+    f.image_url,
+    f.opensea_url,
+    f.is_listed,
+    f.global_rank,
+    f.type_rank,
+    f.top_percent,
+    f.filtered_rank,
+    f.total_count
+  FROM filtered f
+  ORDER BY f.points DESC, f.nft_type, f.token_id
+  LIMIT greatest(p_page_size, 1)
+  OFFSET (greatest(p_page, 1) - 1) * greatest(p_page_size, 1);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_leaderboard_page(text, boolean, text, integer, integer) TO anon, authenticated;
@@ -0,0 +1,128 @@
+-- Rank movers: each completed refresh keeps the previous run's points and
+-- ranks so the change between refreshes can be listed and sorted
+ALTER TABLE public.leaderboard_entries
+  -- Points the current ranks were computed from
+  ADD COLUMN IF NOT EXISTS ranked_points bigint,
+  ADD COLUMN IF NOT EXISTS previous_points bigint,
+  ADD COLUMN IF NOT EXISTS previous_global_rank integer,
+  ADD COLUMN IF NOT EXISTS previous_type_rank integer;
+
+UPDATE public.leaderboard_entries
+SET ranked_points = points
+WHERE ranked_points IS NULL AND global_rank IS NOT NULL;
+
+-- Positive = gained points / climbed places
+ALTER TABLE public.leaderboard_entries
+  ADD COLUMN IF NOT EXISTS points_delta bigint
+    GENERATED ALWAYS AS (ranked_points - previous_points) STORED,
+  ADD COLUMN IF NOT EXISTS rank_delta integer
+    GENERATED ALWAYS AS (previous_global_rank - global_rank) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_entries_points_delta
+  ON public.leaderboard_entries (points_delta);
+CREATE INDEX IF NOT EXISTS idx_leaderboard_entries_rank_delta
+  ON public.leaderboard_entries (rank_delta);
+
+-- p_roll moves the current ranks to previous_* first; only a completed
+-- refresh run does that, zero repairs just update the current ranks
+DROP FUNCTION IF EXISTS public.update_leaderboard_ranks();
+
+CREATE FUNCTION public.update_leaderboard_ranks(p_roll boolean DEFAULT false)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.leaderboard_entries
+  SET previous_points = ranked_points,
+      previous_global_rank = global_rank,
+      previous_type_rank = type_rank
+  WHERE p_roll;
+
+  UPDATE public.leaderboard_entries
+  SET global_rank = NULL, type_rank = NULL, top_percent = NULL, ranked_points = points
+  WHERE points <= 0
+    AND (global_rank IS NOT NULL OR ranked_points IS DISTINCT FROM points);
+
+  WITH ranked AS (
+    SELECT
+      id,
+      points,
+      rank() OVER (ORDER BY points DESC)::integer AS global_rank,
+      rank() OVER (PARTITION BY nft_type ORDER BY points DESC)::integer AS type_rank,
+      cume_dist() OVER (ORDER BY points DESC) * 100 AS top_percent
+    FROM public.leaderboard_entries
+    WHERE points > 0
+  )
+  UPDATE public.leaderboard_entries e
+  SET global_rank = r.global_rank,
+      type_rank = r.type_rank,
+      top_percent = r.top_percent,
+      ranked_points = r.points
+  FROM ranked r
+  WHERE e.id = r.id
+    AND (e.global_rank, e.type_rank, e.top_percent, e.ranked_points)
+      IS DISTINCT FROM (r.global_rank, r.type_rank, r.top_percent, r.points);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_leaderboard_ranks(boolean) FROM PUBLIC, anon, authenticated;
+
+-- Page rows carry the deltas for the movement arrows
+DROP FUNCTION IF EXISTS public.get_leaderboard_page(text, boolean, text, integer, integer);
+
+CREATE FUNCTION public.get_leaderboard_page(
+  p_nft_type text DEFAULT NULL,
+  p_listed boolean DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_page integer DEFAULT 1,
+  p_page_size integer DEFAULT 10
+)
+RETURNS TABLE (
+  token_id text,
+  nft_type text,
+  points bigint,
+  image_url text,
+  opensea_url text,
+  is_listed boolean,
+  global_rank integer,
+  type_rank integer,
+  top_percent double precision,
+  points_delta bigint,
+  rank_delta integer,
+  filtered_rank bigint,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH filtered AS (
+    SELECT
+      e.*,
+      CASE WHEN e.points > 0 THEN rank() OVER (ORDER BY e.points DESC) END AS filtered_rank,
+      count(*) OVER () AS total_count
+    FROM public.leaderboard_entries e
+    WHERE (p_nft_type IS NULL OR e.nft_type = p_nft_type)
+      AND (p_listed IS NULL OR e.is_listed = p_listed)
+      AND (coalesce(trim(p_search), '') = '' OR e.token_id ILIKE '%' || trim(p_search) || '%')
+  )
+  SELECT
+    f.token_id,
+    f.nft_type,
+    f.points,
+    f.image_url,
+    f.opensea_url,
+    f.is_listed,
+    f.global_rank,
+    f.type_rank,
+    f.top_percent,
+    f.points_delta,
+    f.rank_delta,
+    f.filtered_rank,
+    f.total_count
+  FROM filtered f
+  ORDER BY f.points DESC, f.nft_type, f.token_id
+  LIMIT greatest(p_page_size, 1)
+  OFFSET (greatest(p_page, 1) - 1) * greatest(p_page_size, 1);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_leaderboard_page(text, boolean, text, integer, integer) TO anon, authenticated;
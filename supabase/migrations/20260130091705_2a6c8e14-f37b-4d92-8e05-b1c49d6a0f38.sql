@@ -0,0 +1,110 @@
+-- Points accrual: slope of each token's points over recent completed runs
+ALTER TABLE public.leaderboard_entries
+  ADD COLUMN IF NOT EXISTS points_per_day double precision,
+  -- points + points_per_day * 30, rounded
+  ADD COLUMN IF NOT EXISTS projected_points_30d bigint;
+
+-- Least-squares slope over the window; null with fewer than two snapshots.
+-- Failed fetches (0 points) are left out, negative slopes clamp to 0.
+CREATE OR REPLACE FUNCTION public.update_points_projections(p_window_days integer DEFAULT 14)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  WITH rates AS (
+    SELECT
+      s.collection_slug,
+      s.token_id,
+      greatest(regr_slope(s.points, extract(epoch FROM s.captured_at) / 86400), 0) AS points_per_day
+    FROM public.leaderboard_snapshots s
+    JOIN public.leaderboard_runs r ON r.id = s.run_id
+    WHERE r.completed_at IS NOT NULL
+      AND s.captured_at >= now() - make_interval(days => p_window_days)
+      AND s.points > 0
+    GROUP BY s.collection_slug, s.token_id
+  ),
+  projections AS (
+    SELECT
+      e.id,
+      CASE WHEN e.points > 0 THEN r.points_per_day END AS points_per_day,
+      CASE WHEN e.points > 0 AND r.points_per_day IS NOT NULL
+        THEN round(e.points + r.points_per_day * 30)::bigint
+      END AS projected_points_30d
+    FROM public.leaderboard_entries e
+    LEFT JOIN rates r ON r.collection_slug = e.collection_slug AND r.token_id = e.token_id
+  )
+  UPDATE public.leaderboard_entries e
+  SET points_per_day = p.points_per_day, projected_points_30d = p.projected_points_30d
+  FROM projections p
+  WHERE e.id = p.id
+    AND (e.points_per_day, e.projected_points_30d) IS DISTINCT FROM (p.points_per_day, p.projected_points_30d);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_points_projections(integer) FROM PUBLIC, anon, authenticated;
+
+SELECT public.update_points_projections();
+
+-- Page rows carry the accrual rate and projection
+DROP FUNCTION IF EXISTS public.get_leaderboard_page(text, boolean, text, integer, integer);
+
+CREATE FUNCTION public.get_leaderboard_page(
+  p_nft_type text DEFAULT NULL,
+  p_listed boolean DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_page integer DEFAULT 1,
+  p_page_size integer DEFAULT 10
+)
+RETURNS TABLE (
+  token_id text,
+  nft_type text,
+  points bigint,
+  image_url text,
+  opensea_url text,
+  is_listed boolean,
+  global_rank integer,
+  type_rank integer,
+  top_percent double precision,
+  points_delta bigint,
+  rank_delta integer,
+  points_per_day double precision,
+  projected_points_30d bigint,
+  filtered_rank bigint,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH filtered AS (
+    SELECT
+      e.*,
+      CASE WHEN e.points > 0 THEN rank() OVER (ORDER BY e.points DESC) END AS filtered_rank,
+      count(*) OVER () AS total_count
+    FROM public.leaderboard_entries e
+    WHERE (p_nft_type IS NULL OR e.nft_type = p_nft_type)
+      AND (p_listed IS NULL OR e.is_listed = p_listed)
+      AND (coalesce(trim(p_search), '') = '' OR e.token_id ILIKE '%' || trim(p_search) || '%')
+  )
+  SELECT
+    f.token_id,
+    f.nft_type,
+    f.points,
+    f.image_url,
+    f.opensea_url,
+    f.is_listed,
+    f.global_rank,
+    f.type_rank,
+    f.top_percent,
+    f.points_delta,
+    f.rank_delta,
+    f.points_per_day,
+    f.projected_points_30d,
+    f.filtered_rank,
+    f.total_count
+  FROM filtered f
+  ORDER BY f.points DESC, f.nft_type, f.token_id
+  LIMIT greatest(p_page_size, 1)
+  OFFSET (greatest(p_page, 1) - 1) * greatest(p_page_size, 1);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_leaderboard_page(text, boolean, text, integer, integer) TO anon, authenticated;
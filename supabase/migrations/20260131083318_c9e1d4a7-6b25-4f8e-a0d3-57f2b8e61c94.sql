@@ -0,0 +1,30 @@
+-- Freshness of the stored points, for the app's points cache. updated_at also
+-- moves on metadata and rank updates, so it can't tell when points were fetched.
+ALTER TABLE public.leaderboard_entries
+  ADD COLUMN IF NOT EXISTS points_updated_at timestamptz;
+
+UPDATE public.leaderboard_entries
+SET points_updated_at = updated_at
+WHERE points_updated_at IS NULL;
+
+ALTER TABLE public.leaderboard_entries
+  ALTER COLUMN points_updated_at SET DEFAULT now();
+
+CREATE OR REPLACE FUNCTION public.set_points_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.points_updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+-- Any write of points counts as a fetch, even when the value is unchanged
+DROP TRIGGER IF EXISTS set_leaderboard_entries_points_updated_at ON public.leaderboard_entries;
+CREATE TRIGGER set_leaderboard_entries_points_updated_at
+BEFORE UPDATE OF points ON public.leaderboard_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.set_points_updated_at();
@@ -0,0 +1,4 @@
+-- Newest listing start seen by the Discord notifier. Only listings that start
+-- later can be announced as a new best deal; rows without it re-baseline.
+ALTER TABLE public.discord_notifier_state
+  ADD COLUMN IF NOT EXISTS last_listing_at timestamptz;
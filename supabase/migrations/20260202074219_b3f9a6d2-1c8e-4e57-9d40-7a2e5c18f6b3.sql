@@ -0,0 +1,17 @@
+-- Progress of the sales ingest, one row per collection. A pass pages sale
+-- events newest to oldest; next_cursor resumes a pass a failed or capped run
+-- left unfinished. Every sale at or before synced_until is stored, so a pass
+-- may stop there; it stays null until the first pass (the backfill) reaches
+-- the oldest event.
+CREATE TABLE IF NOT EXISTS public.sales_ingest_state (
+  collection_slug text PRIMARY KEY,
+  next_cursor text,
+  -- Newest sale seen by the pass in progress, synced_until once it completes
+  pass_newest_at timestamptz,
+  synced_until timestamptz,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.sales_ingest_state ENABLE ROW LEVEL SECURITY;
+
+-- No public policies (read and written only via service role in backend)
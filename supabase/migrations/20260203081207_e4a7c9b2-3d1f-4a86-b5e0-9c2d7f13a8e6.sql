@@ -0,0 +1,32 @@
+-- Floor history for charts, one snapshot (the latest) per bucket. Snapshots
+-- are taken every 30 minutes, so 30 days unbucketed would pass PostgREST's
+-- 1000 row cap and drop the most recent days.
+CREATE OR REPLACE FUNCTION public.get_listing_snapshot_history(
+  p_collection_slug text,
+  p_since timestamptz,
+  p_bucket_minutes integer DEFAULT 60
+)
+RETURNS TABLE (
+  captured_at timestamptz,
+  floor_eth double precision,
+  median_eth double precision,
+  listing_count integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT captured_at, floor_eth, median_eth, listing_count
+  FROM (
+    SELECT DISTINCT ON (floor(extract(epoch FROM s.captured_at) / (greatest(p_bucket_minutes, 1) * 60)))
+      s.captured_at, s.floor_eth, s.median_eth, s.listing_count
+    FROM public.listing_snapshots s
+    WHERE s.collection_slug = p_collection_slug
+      AND s.captured_at >= p_since
+    ORDER BY floor(extract(epoch FROM s.captured_at) / (greatest(p_bucket_minutes, 1) * 60)), s.captured_at DESC
+  ) bucketed
+  ORDER BY captured_at;
+$$;
+
+-- Runs with the caller's rights, so the public read policy still applies
+GRANT EXECUTE ON FUNCTION public.get_listing_snapshot_history(text, timestamptz, integer) TO anon, authenticated;
@@ -0,0 +1,62 @@
+-- Search matches the token id literally; ILIKE treated % and _ in the input as wildcards
+CREATE OR REPLACE FUNCTION public.get_leaderboard_page(
+  p_nft_type text DEFAULT NULL,
+  p_listed boolean DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_page integer DEFAULT 1,
+  p_page_size integer DEFAULT 10
+)
+RETURNS TABLE (
+  token_id text,
+  nft_type text,
+  points bigint,
+  image_url text,
+  opensea_url text,
+  is_listed boolean,
+  global_rank integer,
+  type_rank integer,
+  top_percent double precision,
+  points_delta bigint,
+  rank_delta integer,
+  points_per_day double precision,
+  projected_points_30d bigint,
+  filtered_rank bigint,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH filtered AS (
+    SELECT
+      e.*,
+      CASE WHEN e.points > 0 THEN rank() OVER (ORDER BY e.points DESC) END AS filtered_rank,
+      count(*) OVER () AS total_count
+    FROM public.leaderboard_entries e
+    WHERE (p_nft_type IS NULL OR e.nft_type = p_nft_type)
+      AND (p_listed IS NULL OR e.is_listed = p_listed)
+      AND (coalesce(trim(p_search), '') = '' OR strpos(e.token_id, trim(p_search)) > 0)
+  )
+  SELECT
+    f.token_id,
+    f.nft_type,
+    f.points,
+    f.image_url,
+    f.opensea_url,
+    f.is_listed,
+    f.global_rank,
+    f.type_rank,
+    f.top_percent,
+    f.points_delta,
+    f.rank_delta,
+    f.points_per_day,
+    f.projected_points_30d,
+    f.filtered_rank,
+    f.total_count
+  FROM filtered f
+  ORDER BY f.points DESC, f.nft_type, f.token_id
+  LIMIT greatest(p_page_size, 1)
+  OFFSET (greatest(p_page, 1) - 1) * greatest(p_page_size, 1);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_leaderboard_page(text, boolean, text, integer, integer) TO anon, authenticated;
@@ -0,0 +1,343 @@
+/**
+ * Fixture-driven stand-in for the OpenSea v2 and Youmio staking APIs, and a
+ * Discord webhook.
+ *
+ *   deno run --allow-net --allow-read --allow-env supabase/mock-api/server.ts
+ *
+ * Serves only the endpoints the edge functions use:
+ *   GET /api/v2/listings/collection/:slug/all
+ *   GET /api/v2/collection/:slug/nfts
+ *   GET /api/v2/chain/ethereum/account/:address/nfts?collection=
+ *   GET /api/v2/chain/ethereum/contract/:contract/nfts/:tokenId
+ *   GET /api/v2/events/collection/:slug?event_type=sale
+ *   GET /api/v2/events/chain/ethereum/contract/:contract/nfts/:tokenId?event_type=sale
+ *   GET /staking/api/seeds/points?id=&type=
+ *   GET /images/:slug/:tokenId.svg
+ *   POST /webhook                      records Discord messages (faulted like the rest)
+ *
+ * Plus controls to drive the Discord notifier through listing changes:
+ *   GET /webhook                       messages received so far; DELETE clears them
+ *   POST /mock/listings                { slug, tokenId, priceEth } lists a seed now
+ *   DELETE /mock/listings/:slug/:id    removes a seed's listings, as if it sold
+ *
+ * e.g. with DISCORD_WEBHOOK_URL=http://host.docker.internal:8788/webhook:
+ * run discord-notifier once for a baseline, list a seed cheaply and run it
+ * again (one "Most Points per ETH"), then delete that listing and run it again (the
+ * older listing that takes the slot is not announced).
+ *
+ * Env:
+ *   MOCK_PORT          port to listen on (default 8788)
+ *   MOCK_FIXTURES      fixture file (default fixtures/seeds.json next to this file)
+ *   MOCK_PAGE_SIZE     max items per page, small so cursors get exercised (default 4)
+ *   MOCK_5XX_EVERY     start a burst of 503s every N requests, 0 disables (default 15)
+ *   MOCK_5XX_BURST     length of each 503 burst (default 2)
+ *   MOCK_429_EVERY     answer 429 every N requests, 0 disables (default 20)
+ *   MOCK_RETRY_AFTER   Retry-After seconds sent with 429s (default 1)
+ *   MOCK_PUBLIC_URL    origin the browser uses for image URLs (default http://localhost:MOCK_PORT)
+ */
+
+interface FixtureListing {
+  priceEth: number;
+  listedAt: string;
+}
+
+interface FixtureSale {
+  priceEth: number;
+  currency: string;
+  soldAt: string;
+  seller: string;
+  buyer: string;
+}
+
+interface FixtureSeed {
+  tokenId: string;
+  // null = never staked, the staking API answers 404
+  points: number | null;
+  owner: string;
+  listings?: FixtureListing[];
+  sales?: FixtureSale[];
+}
+
+interface FixtureCollection {
+  nftType: string;
+  contract: string;
+  seeds: FixtureSeed[];
+}
+
+interface Fixtures {
+  collections: Record<string, FixtureCollection>;
+}
+
+const PORT = Number(Deno.env.get('MOCK_PORT') ?? 8788);
+const FIXTURES_PATH = Deno.env.get('MOCK_FIXTURES') ?? new URL('./fixtures/seeds.json', import.meta.url).pathname;
+const PAGE_SIZE = Number(Deno.env.get('MOCK_PAGE_SIZE') ?? 4);
+const FAULT_EVERY = Number(Deno.env.get('MOCK_5XX_EVERY') ?? 15);
+const FAULT_BURST = Number(Deno.env.get('MOCK_5XX_BURST') ?? 2);
+const RATE_LIMIT_EVERY = Number(Deno.env.get('MOCK_429_EVERY') ?? 20);
+const RETRY_AFTER = Number(Deno.env.get('MOCK_RETRY_AFTER') ?? 1);
+// Functions reach the mock via host.docker.internal, but images load in the browser
+const PUBLIC_URL = (Deno.env.get('MOCK_PUBLIC_URL') ?? `http://localhost:${PORT}`).replace(/\/$/, '');
+
+const fixtures: Fixtures = JSON.parse(await Deno.readTextFile(FIXTURES_PATH));
+
+let requestCount = 0;
+let burstRemaining = 0;
+
+const webhookMessages: { receivedAt: string; body: unknown }[] = [];
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function toWei(eth: number): string {
+  return (BigInt(Math.round(eth * 1e9)) * 10n ** 9n).toString();
+}
+
+function toSeconds(iso: string): number {
+  return Math.floor(Date.parse(iso) / 1000);
+}
+
+// Opaque cursors, like OpenSea's
+function encodeCursor(offset: number): string {
+  return btoa(`offset:${offset}`);
+}
+
+function decodeCursor(cursor: string | null): number {
+  if (!cursor) return 0;
+  try {
+    const match = atob(cursor).match(/^offset:(\d+)$/);
+    return match ? Number(match[1]) : 0;
+  } catch {
+    return 0;
+  }
+}
+
+function paginate<T>(items: T[], url: URL): { items: T[]; next: string | null } {
+  const limit = Math.min(Number(url.searchParams.get('limit') ?? PAGE_SIZE), PAGE_SIZE);
+  const offset = decodeCursor(url.searchParams.get('next'));
+  const page = items.slice(offset, offset + limit);
+  const nextOffset = offset + limit;
+  return { items: page, next: nextOffset < items.length ? encodeCursor(nextOffset) : null };
+}
+
+/**
+ * Deterministic 5xx bursts and 429s so retry paths get exercised
+ */
+function injectFault(): Response | null {
+  requestCount++;
+
+  if (burstRemaining > 0) {
+    burstRemaining--;
+    return json({ errors: ['Service temporarily unavailable (mock)'] }, 503);
+  }
+  if (FAULT_EVERY > 0 && requestCount % FAULT_EVERY === 0) {
+    burstRemaining = FAULT_BURST - 1;
+    return json({ errors: ['Service temporarily unavailable (mock)'] }, 503);
+  }
+  if (RATE_LIMIT_EVERY > 0 && requestCount % RATE_LIMIT_EVERY === 0) {
+    return json({ detail: 'Request was throttled (mock)' }, 429, { 'Retry-After': String(RETRY_AFTER) });
+  }
+  return null;
+}
+
+function findCollectionByContract(contract: string): [string, FixtureCollection] | null {
+  const entry = Object.entries(fixtures.collections)
+    .find(([, c]) => c.contract.toLowerCase() === contract.toLowerCase());
+  return entry ?? null;
+}
+
+function toNFT(slug: string, collection: FixtureCollection, seed: FixtureSeed) {
+  const imageUrl = `${PUBLIC_URL}/images/${slug}/${seed.tokenId}.svg`;
+  return {
+    identifier: seed.tokenId,
+    collection: slug,
+    contract: collection.contract,
+    token_standard: 'erc721',
+    name: `${collection.nftType} Seed #${seed.tokenId}`,
+    description: null,
+    image_url: imageUrl,
+    display_image_url: imageUrl,
+    metadata_url: null,
+    opensea_url: `https://opensea.io/assets/ethereum/${collection.contract}/${seed.tokenId}`,
+    updated_at: '2026-01-01T00:00:00.000000',
+    is_disabled: false,
+    is_nsfw: false,
+  };
+}
+
+function toListings(collection: FixtureCollection) {
+  return collection.seeds.flatMap((seed) => (seed.listings ?? []).map((listing, i) => {
+    const startTime = toSeconds(listing.listedAt);
+    return {
+      order_hash: `0x${seed.tokenId.padStart(8, '0')}${String(i).padStart(56, '0')}`,
+      chain: 'ethereum',
+      type: 'basic',
+      price: { current: { currency: 'ETH', decimals: 18, value: toWei(listing.priceEth) } },
+      protocol_data: {
+        parameters: {
+          offerer: seed.owner,
+          offer: [{
+            itemType: 2,
+            token: collection.contract,
+            identifierOrCriteria: seed.tokenId,
+            startAmount: '1',
+            endAmount: '1',
+          }],
+          startTime: String(startTime),
+          endTime: String(startTime + 30 * 24 * 3600),
+        },
+      },
+      protocol_address: '0x0000000000000068f116a894984e2db1123eb395',
+    };
+  }));
+}
+
+function toSaleEvents(slug: string, collection: FixtureCollection, seeds: FixtureSeed[]) {
+  return seeds
+    .flatMap((seed) => (seed.sales ?? []).map((sale, i) => ({
+      event_type: 'sale',
+      transaction: `0x${seed.tokenId.padStart(8, '0')}${String(i).padStart(8, '0')}${'ab'.repeat(24)}`,
+      event_timestamp: toSeconds(sale.soldAt),
+      closing_date: toSeconds(sale.soldAt),
+      seller: sale.seller,
+      buyer: sale.buyer,
+      nft: toNFT(slug, collection, seed),
+      payment: { quantity: toWei(sale.priceEth), decimals: 18, symbol: sale.currency },
+    })))
+    // Newest first, like OpenSea
+    .sort((a, b) => b.event_timestamp - a.event_timestamp);
+}
+
+function seedImage(slug: string, tokenId: string): Response {
+  const hue = (Number(tokenId) * 47) % 360;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="300" height="300" viewBox="0 0 300 300">` +
+    `<rect width="300" height="300" fill="hsl(${hue}, 60%, 45%)"/>` +
+    `<text x="50%" y="50%" text-anchor="middle" dy=".3em" fill="white" font-family="Arial" font-size="28">${slug} #${tokenId}</text>` +
+    `</svg>`;
+  return new Response(svg, { headers: { 'Content-Type': 'image/svg+xml' } });
+}
+
+async function handle(req: Request): Promise<Response> {
+  const url = new URL(req.url);
+  const path = url.pathname.replace(/\/$/, '');
+  let match: RegExpMatchArray | null;
+
+  // Images are static assets, never faulted
+  if ((match = path.match(/^\/images\/([^/]+)\/(\d+)\.svg$/))) {
+    return seedImage(match[1], match[2]);
+  }
+
+  // --- Controls, never faulted ---
+  if (path === '/webhook' && req.method === 'GET') {
+    return json({ messages: webhookMessages });
+  }
+
+  if (path === '/webhook' && req.method === 'DELETE') {
+    webhookMessages.length = 0;
+    return json({ ok: true });
+  }
+
+  if (path === '/mock/listings' && req.method === 'POST') {
+    const { slug, tokenId, priceEth } = await req.json().catch(() => ({}));
+    const seed = fixtures.collections[slug]?.seeds.find((s) => s.tokenId === String(tokenId));
+    if (!seed || !(Number(priceEth) > 0)) return json({ errors: ['Unknown seed or invalid priceEth'] }, 400);
+    seed.listings = [...(seed.listings ?? []), { priceEth: Number(priceEth), listedAt: new Date().toISOString() }];
+    return json({ ok: true, listings: seed.listings });
+  }
+
+  if ((match = path.match(/^\/mock\/listings\/([^/]+)\/(\d+)$/)) && req.method === 'DELETE') {
+    const seed = fixtures.collections[match[1]]?.seeds.find((s) => s.tokenId === match![2]);
+    if (!seed) return json({ errors: ['Unknown seed'] }, 404);
+    seed.listings = [];
+    return json({ ok: true });
+  }
+
+  const fault = injectFault();
+  if (fault) return fault;
+
+  // --- Discord webhook ---
+  if (path === '/webhook' && req.method === 'POST') {
+    webhookMessages.push({ receivedAt: new Date().toISOString(), body: await req.json().catch(() => null) });
+    return new Response(null, { status: 204 });
+  }
+
+  // --- Staking API ---
+  if (path === '/staking/api/seeds/points') {
+    const tokenId = url.searchParams.get('id');
+    const type = url.searchParams.get('type');
+    const collection = Object.values(fixtures.collections).find((c) => c.nftType === type);
+    const seed = collection?.seeds.find((s) => s.tokenId === tokenId);
+    if (!seed || seed.points === null) return json({ error: 'Seed not found' }, 404);
+    return json({ id: seed.tokenId, type, points: seed.points });
+  }
+
+  // --- OpenSea API ---
+  if ((match = path.match(/^\/api\/v2\/listings\/collection\/([^/]+)\/all$/))) {
+    const collection = fixtures.collections[match[1]];
+    if (!collection) return json({ errors: [`Collection ${match[1]} not found`] }, 404);
+    const { items, next } = paginate(toListings(collection), url);
+    return json({ listings: items, next });
+  }
+
+  if ((match = path.match(/^\/api\/v2\/collection\/([^/]+)\/nfts$/))) {
+    const slug = match[1];
+    const collection = fixtures.collections[slug];
+    if (!collection) return json({ errors: [`Collection ${slug} not found`] }, 404);
+    const { items, next } = paginate(collection.seeds, url);
+    return json({ nfts: items.map((seed) => toNFT(slug, collection, seed)), next });
+  }
+
+  if ((match = path.match(/^\/api\/v2\/chain\/ethereum\/account\/(0x[0-9a-fA-F]{40})\/nfts$/))) {
+    const address = match[1].toLowerCase();
+    const slugFilter = url.searchParams.get('collection');
+    const owned = Object.entries(fixtures.collections)
+      .filter(([slug]) => !slugFilter || slug === slugFilter)
+      .flatMap(([slug, collection]) => collection.seeds
+        .filter((seed) => seed.owner.toLowerCase() === address)
+        .map((seed) => toNFT(slug, collection, seed)));
+    const { items, next } = paginate(owned, url);
+    return json({ nfts: items, next });
+  }
+
+  if ((match = path.match(/^\/api\/v2\/chain\/ethereum\/contract\/([^/]+)\/nfts\/(\d+)$/))) {
+    const found = findCollectionByContract(match[1]);
+    const seed = found?.[1].seeds.find((s) => s.tokenId === match![2]);
+    if (!found || !seed) return json({ errors: ['NFT not found'] }, 404);
+    return json({ nft: toNFT(found[0], found[1], seed) });
+  }
+
+  if ((match = path.match(/^\/api\/v2\/events\/collection\/([^/]+)$/))) {
+    const slug = match[1];
+    const collection = fixtures.collections[slug];
+    if (!collection) return json({ errors: [`Collection ${slug} not found`] }, 404);
+    const events = url.searchParams.get('event_type') === 'sale'
+      ? toSaleEvents(slug, collection, collection.seeds)
+      : [];
+    const { items, next } = paginate(events, url);
+    return json({ asset_events: items, next });
+  }
+
+  if ((match = path.match(/^\/api\/v2\/events\/chain\/ethereum\/contract\/([^/]+)\/nfts\/(\d+)$/))) {
+    const found = findCollectionByContract(match[1]);
+    const seed = found?.[1].seeds.find((s) => s.tokenId === match![2]);
+    if (!found || !seed) return json({ errors: ['NFT not found'] }, 404);
+    const events = url.searchParams.get('event_type') === 'sale'
+      ? toSaleEvents(found[0], found[1], [seed])
+      : [];
+    const { items, next } = paginate(events, url);
+    return json({ asset_events: items, next });
+  }
+
+  return json({ errors: [`No mock for ${req.method} ${path}`] }, 404);
+}
+
+console.log(`[Mock] OpenSea at http://localhost:${PORT}/api/v2, staking at http://localhost:${PORT}/staking/api, webhook at http://localhost:${PORT}/webhook`);
+
+Deno.serve({ port: PORT }, async (req) => {
+  const response = await handle(req);
+  console.log(`[Mock] ${response.status} ${req.method} ${new URL(req.url).pathname}`);
+  return response;
+});